@@ -0,0 +1,323 @@
+// Operator control over HTTP: listing players, kicks, bans, renames, teleports,
+// announcements and the tick rate, each recorded in the audit log.
+import { IncomingMessage, ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { AuthVerifier, Identity, extractToken, normalizeAddress } from './auth';
+import { AuditLog } from './audit';
+import { CLIENT_MESSAGE_SCHEMAS, MessageSchema, checkSchema } from './validation';
+import type { KeystoneServer, PlayerSelector } from './keystone';
+
+const ADMIN_PATH_PREFIX = '/admin/';
+const MAX_BODY_SIZE = 16 * 1024; // Largest request body accepted (bytes)
+const DEFAULT_KICK_REASON = 'Removed by an operator';
+const REASON_RULE = { type: 'string', minLength: 1, maxLength: 200, optional: true } as const;
+const ADDRESS_RULE = { type: 'string', minLength: 1, maxLength: 64, pattern: /^[0-9A-Fa-f:.]+$/, optional: true } as const;
+const USER_ID_RULE = { type: 'string', minLength: 1, maxLength: 256, optional: true } as const;
+
+// Request bodies of the POST actions; player selectors are checked separately
+const ADMIN_SCHEMAS: Record<string, MessageSchema> = {
+    kick: {
+        playerId: { ...CLIENT_MESSAGE_SCHEMAS.mute.playerId, optional: true },
+        name: { ...CLIENT_MESSAGE_SCHEMAS.set_name.name, optional: true },
+        address: ADDRESS_RULE,
+        reason: REASON_RULE,
+    },
+    ban: {
+        playerId: { ...CLIENT_MESSAGE_SCHEMAS.mute.playerId, optional: true },
+        name: { ...CLIENT_MESSAGE_SCHEMAS.set_name.name, optional: true },
+        address: ADDRESS_RULE,
+        userId: USER_ID_RULE,
+        reason: REASON_RULE,
+    },
+    unban: {
+        address: ADDRESS_RULE,
+        userId: USER_ID_RULE,
+    },
+    rename: {
+        playerId: CLIENT_MESSAGE_SCHEMAS.mute.playerId,
+        name: CLIENT_MESSAGE_SCHEMAS.set_name.name,
+    },
+    teleport: {
+        playerId: CLIENT_MESSAGE_SCHEMAS.mute.playerId,
+        x: CLIENT_MESSAGE_SCHEMAS.move.x,
+        z: CLIENT_MESSAGE_SCHEMAS.move.z,
+        rot: { ...CLIENT_MESSAGE_SCHEMAS.move.rot, optional: true },
+        y: CLIENT_MESSAGE_SCHEMAS.move.y,
+    },
+    announce: {
+        text: CLIENT_MESSAGE_SCHEMAS.chat.text,
+    },
+    'tick-rate': {
+        tickRate: { type: 'number', min: 5, max: 1000 },
+    },
+};
+
+/**
+ * Outcome of an action: the HTTP status and JSON body to answer with.
+ */
+type ActionResult = { status: number; body: Record<string, unknown> };
+
+/**
+ * Writes a JSON response.
+ */
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+}
+
+/**
+ * Reads and parses a JSON request body. An empty body is an empty object.
+ * @returns {Promise<Record<string, unknown> | null>} The body, or null if it is too large or not a JSON object.
+ */
+function readJsonBody(request: IncomingMessage): Promise<Record<string, unknown> | null> {
+    return new Promise(resolve => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        request.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_SIZE) {
+                resolve(null);
+                request.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        request.on('end', () => {
+            const text = Buffer.concat(chunks).toString('utf8');
+            try {
+                const body = text.trim() === '' ? {} : JSON.parse(text);
+                resolve(typeof body === 'object' && body !== null && !Array.isArray(body) ? body : null);
+            } catch {
+                resolve(null);
+            }
+        });
+        request.on('error', () => resolve(null));
+    });
+}
+
+/**
+ * Reads the player selector of a kick or ban: exactly one of `playerId`, `name` and `address`.
+ * @returns {PlayerSelector | null} The selector, or null if none or several were given.
+ */
+function getSelector(body: Record<string, unknown>): PlayerSelector | null {
+    const given = (['playerId', 'name', 'address'] as const).filter(field => typeof body[field] === 'string');
+    if (given.length !== 1) {
+        return null;
+    }
+    const field = given[0];
+    const value = body[field] as string;
+    return field === 'playerId' ? { playerId: value } : field === 'name' ? { name: value } : { address: value };
+}
+
+/**
+ * The admin HTTP interface of a server, under `/admin/`. Requests must carry
+ * `Authorization: Bearer <token>` with either the static admin token or a token
+ * the server's verifier accepts for a user with the admin role.
+ *
+ * - `GET /admin/players` and `GET /admin/bans` list players and bans.
+ * - `POST /admin/kick` and `POST /admin/ban` take one of `playerId`, `name` or `address`
+ *   (bans also `userId`) and an optional `reason`. A kick removes every matching player; a ban by
+ *   `name` must match exactly one. Both report the IDs of the players kicked. `POST /admin/unban` takes `userId` or `address`.
+ * - `POST /admin/rename` takes `playerId` and `name`; `POST /admin/teleport` takes `playerId`, `x`, `z` and optionally `rot` and `y`.
+ * - `POST /admin/announce` takes `text`; `POST /admin/tick-rate` takes `tickRate` in milliseconds.
+ */
+export class AdminChannel {
+    private readonly server: KeystoneServer;
+    private readonly token: Buffer | null;
+    private readonly verifier: AuthVerifier | null;
+    private readonly role: string;
+    private readonly audit: AuditLog;
+
+    /**
+     * Creates a new AdminChannel.
+     * @param {KeystoneServer} server - The server to act on.
+     * @param {string | null} token - Static admin token, or null to accept only verified admins.
+     * @param {AuthVerifier | null} verifier - Verifier for user tokens, or null to accept only the static token.
+     * @param {string} role - Role a verified user needs.
+     * @param {AuditLog} audit - Where actions are recorded.
+     */
+    constructor(server: KeystoneServer, token: string | null, verifier: AuthVerifier | null, role: string, audit: AuditLog) {
+        this.server = server;
+        this.token = token ? Buffer.from(token) : null;
+        this.verifier = verifier;
+        this.role = role;
+        this.audit = audit;
+    }
+
+    /**
+     * Checks whether any way to authenticate as an admin is configured.
+     * @returns {boolean} True if admin requests can be accepted at all.
+     */
+    public isEnabled(): boolean {
+        return this.token !== null || this.verifier !== null;
+    }
+
+    /**
+     * Answers a request if it is for the admin interface. The answer is written asynchronously.
+     * @param {IncomingMessage} request - The HTTP request.
+     * @param {ServerResponse} response - The response to write.
+     * @returns {boolean} True if the request is for the admin interface, false to let another handler answer it.
+     */
+    public handleRequest(request: IncomingMessage, response: ServerResponse): boolean {
+        const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+        if (!this.isEnabled() || !path.startsWith(ADMIN_PATH_PREFIX)) {
+            return false;
+        }
+        this.process(request, response, path.slice(ADMIN_PATH_PREFIX.length)).catch(error => {
+            console.error(`Admin request ${path} failed:`, error);
+            if (!response.headersSent) {
+                sendJson(response, 500, { ok: false, error: 'Internal error' });
+            }
+        });
+        return true;
+    }
+
+    /**
+     * Authenticates a request.
+     * @returns {Promise<string | null>} The actor to record in the audit log, or null if the request is not from an admin.
+     */
+    private async authenticate(request: IncomingMessage): Promise<string | null> {
+        const token = extractToken(request);
+        if (!token) {
+            return null;
+        }
+        const presented = Buffer.from(token);
+        if (this.token && presented.length === this.token.length && timingSafeEqual(presented, this.token)) {
+            return 'token';
+        }
+        if (!this.verifier) {
+            return null;
+        }
+        let identity: Identity | null;
+        try {
+            identity = await this.verifier(token, request);
+        } catch (error) {
+            console.error('Auth verifier failed:', error);
+            identity = null;
+        }
+        return identity?.roles?.includes(this.role) ? identity.userId : null;
+    }
+
+    /**
+     * Authenticates, validates and carries out a request, then audits and answers it.
+     */
+    private async process(request: IncomingMessage, response: ServerResponse, action: string): Promise<void> {
+        const address = normalizeAddress(request.socket.remoteAddress ?? 'unknown');
+        const actor = await this.authenticate(request);
+        if (!actor) {
+            if (request.method === 'POST') {
+                this.audit.record({ actor: 'unknown', address, action, details: {}, ok: false });
+            }
+            sendJson(response, 401, { ok: false, error: 'Admin credentials required' });
+            return;
+        }
+
+        if (request.method === 'GET') {
+            switch (action) {
+                case 'players':
+                    sendJson(response, 200, { ok: true, players: this.server.listPlayers() });
+                    return;
+                case 'bans':
+                    sendJson(response, 200, { ok: true, ...this.server.bans.list() });
+                    return;
+            }
+        }
+        const schema = ADMIN_SCHEMAS[action];
+        if (!schema || !Object.prototype.hasOwnProperty.call(ADMIN_SCHEMAS, action)) {
+            sendJson(response, 404, { ok: false, error: `Unknown admin endpoint: ${request.method} ${action}` });
+            return;
+        }
+        if (request.method !== 'POST') {
+            sendJson(response, 405, { ok: false, error: 'Use POST' });
+            return;
+        }
+
+        const body = await readJsonBody(request);
+        if (!body) {
+            sendJson(response, 400, { ok: false, error: 'Body must be a JSON object' });
+            return;
+        }
+        const failure = checkSchema(body, schema);
+        const result = failure && !failure.ok
+            ? { status: 400, body: { ok: false, error: failure.detail } }
+            : this.perform(action, body);
+        this.audit.record({ actor, address, action, details: { ...body, ...result.body, ok: undefined }, ok: result.status === 200 });
+        sendJson(response, result.status, result.body);
+    }
+
+    /**
+     * Carries out a validated action.
+     */
+    private perform(action: string, body: Record<string, unknown>): ActionResult {
+        const reason = typeof body.reason === 'string' ? body.reason : DEFAULT_KICK_REASON;
+        switch (action) {
+            case 'kick': {
+                const selector = getSelector(body);
+                if (!selector) {
+                    return { status: 400, body: { ok: false, error: 'Give exactly one of playerId, name or address' } };
+                }
+                const kicked = this.server.findPlayers(selector).filter(playerId => this.server.kick(playerId, reason));
+                return kicked.length > 0
+                    ? { status: 200, body: { ok: true, kicked } }
+                    : { status: 404, body: { ok: false, error: 'No matching player' } };
+            }
+            case 'ban': {
+                if (typeof body.userId === 'string') {
+                    if (getSelector(body)) {
+                        return { status: 400, body: { ok: false, error: 'Give exactly one of userId, playerId, name or address' } };
+                    }
+                    return { status: 200, body: { ok: true, banned: { userId: body.userId }, kicked: this.server.banUser(body.userId, reason) } };
+                }
+                const selector = getSelector(body);
+                if (!selector) {
+                    return { status: 400, body: { ok: false, error: 'Give exactly one of userId, playerId, name or address' } };
+                }
+                if ('address' in selector) {
+                    return { status: 200, body: { ok: true, banned: selector, kicked: this.server.banAddress(selector.address, reason) } };
+                }
+                const playerIds = this.server.findPlayers(selector);
+                if (playerIds.length > 1) {
+                    // Banning one of several namesakes would be a guess, so ask for a player ID
+                    return { status: 400, body: { ok: false, error: 'More than one player matches; ban by playerId' } };
+                }
+                const result = playerIds.length === 1 ? this.server.banPlayer(playerIds[0], reason) : null;
+                return result
+                    ? { status: 200, body: { ok: true, ...result } }
+                    : { status: 404, body: { ok: false, error: 'No matching player' } };
+            }
+            case 'unban': {
+                if ((typeof body.userId === 'string') === (typeof body.address === 'string')) {
+                    return { status: 400, body: { ok: false, error: 'Give exactly one of userId or address' } };
+                }
+                const lifted = typeof body.userId === 'string'
+                    ? this.server.bans.unban(body.userId)
+                    : this.server.bans.unbanAddress(body.address as string);
+                return lifted
+                    ? { status: 200, body: { ok: true } }
+                    : { status: 404, body: { ok: false, error: 'Not banned' } };
+            }
+            case 'rename': {
+                const playerId = body.playerId as string;
+                if (!this.server.findPlayers({ playerId }).length) {
+                    return { status: 404, body: { ok: false, error: 'No such player' } };
+                }
+                return this.server.renamePlayer(playerId, body.name as string)
+                    ? { status: 200, body: { ok: true } }
+                    : { status: 409, body: { ok: false, error: 'Name is taken or reserved' } };
+            }
+            case 'teleport': {
+                const state = this.server.teleportPlayer(body.playerId as string, body.x as number, body.z as number, body.rot as number | undefined, body.y as number | undefined);
+                return state
+                    ? { status: 200, body: { ok: true, x: state.x, y: state.y, z: state.z, rot: state.rot } }
+                    : { status: 404, body: { ok: false, error: 'No such player' } };
+            }
+            case 'announce':
+                return { status: 200, body: { ok: true, recipients: this.server.announce(body.text as string) } };
+            case 'tick-rate':
+                this.server.setTickRate(body.tickRate as number);
+                return { status: 200, body: { ok: true } };
+            default:
+                return { status: 404, body: { ok: false, error: `Unknown admin action: ${action}` } };
+        }
+    }
+}
@@ -0,0 +1,59 @@
+// Audit trail of operator actions, one JSON object per line.
+import { promises as fs } from 'fs';
+
+/**
+ * One operator action.
+ * @property {number} time - When the action was taken (ms since the epoch).
+ * @property {string} actor - Who took it: the admin's user ID, or 'token' for the static admin token.
+ * @property {string} address - IP address the request came from.
+ * @property {string} action - What was done, e.g. 'kick'.
+ * @property {Record<string, unknown>} details - The request's parameters and what they resolved to.
+ * @property {boolean} ok - Whether the action succeeded.
+ */
+export interface AuditEntry {
+    time: number;
+    actor: string;
+    address: string;
+    action: string;
+    details: Record<string, unknown>;
+    ok: boolean;
+}
+
+/**
+ * Appends audit entries to a file, or only to the console if no file is configured.
+ * Entries are written in order; a failed write is logged and the next one still tried.
+ */
+export class AuditLog {
+    private readonly file: string | null;
+    private pending: Promise<void>; // The latest queued write, so entries never interleave
+
+    /**
+     * Creates a new AuditLog.
+     * @param {string | null} file - Where to append entries, or null to log them to the console only.
+     */
+    constructor(file: string | null) {
+        this.file = file;
+        this.pending = Promise.resolve();
+    }
+
+    /**
+     * Records an action.
+     * @param {Omit<AuditEntry, 'time'>} entry - The action; the time is added here.
+     */
+    public record(entry: Omit<AuditEntry, 'time'>): void {
+        const line = JSON.stringify({ time: Date.now(), ...entry });
+        console.log(`Audit: ${line}`);
+        const file = this.file;
+        if (file) {
+            this.pending = this.pending.then(() => fs.appendFile(file, line + '\n')).catch(error => console.error(`Failed to write audit log ${file}:`, error));
+        }
+    }
+
+    /**
+     * Waits for every entry recorded so far to be written.
+     * @returns {Promise<void>} Resolves once nothing is being written.
+     */
+    public flush(): Promise<void> {
+        return this.pending;
+    }
+}
@@ -0,0 +1,269 @@
+// Authentication of incoming connections during the HTTP upgrade: token
+// extraction, pluggable verifiers (including a built-in HS256 JWT verifier) and bans.
+import { IncomingMessage } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * A verified user attached to a connection.
+ * @property {string} userId - Stable ID of the user (e.g. the JWT `sub` claim).
+ * @property {string} displayName - Name reserved for this user (optional).
+ * @property {string[]} roles - Roles granted to the user (optional).
+ */
+export interface Identity {
+    userId: string;
+    displayName?: string;
+    roles?: string[];
+}
+
+/**
+ * Checks a token and returns the identity it proves, or null if it is invalid.
+ * Any function with this shape can be plugged in as a custom verifier.
+ */
+export type AuthVerifier = (token: string, request: IncomingMessage) => Identity | null | Promise<Identity | null>;
+
+/**
+ * Outcome of authenticating an upgrade request. `identity` is null for
+ * anonymous connections when authentication is optional.
+ */
+export type AuthResult =
+    | { ok: true; identity: Identity | null }
+    | { ok: false; status: 401 | 403; reason: string };
+
+/**
+ * An upgrade request with the identity found during authentication attached.
+ */
+export interface AuthenticatedRequest extends IncomingMessage {
+    identity?: Identity | null;
+}
+
+/**
+ * Options for the built-in JWT verifier.
+ * @property {string} issuer - Required `iss` claim (optional).
+ * @property {string} audience - Required `aud` claim (optional).
+ * @property {number} clockSkew - Seconds of leeway when checking `exp` and `nbf`.
+ */
+export interface JwtVerifierOptions {
+    issuer?: string;
+    audience?: string;
+    clockSkew?: number;
+}
+
+/**
+ * Creates a verifier for HMAC-SHA256 (HS256) signed JWTs. The identity comes
+ * from the `sub`, `name` and `roles` claims.
+ * @param {string} secret - The shared signing secret.
+ * @param {JwtVerifierOptions} options - Claim requirements (optional).
+ * @returns {AuthVerifier} The verifier.
+ */
+export function createJwtVerifier(secret: string, options: JwtVerifierOptions = {}): AuthVerifier {
+    const clockSkew = options.clockSkew ?? 30;
+    return (token: string): Identity | null => {
+        const parts = token.split('.');
+        if (parts.length !== 3) {
+            return null;
+        }
+        const [encodedHeader, encodedPayload, signature] = parts;
+
+        const expected = Buffer.from(createHmac('sha256', secret).update(`${encodedHeader}.${encodedPayload}`).digest('base64url'));
+        const actual = Buffer.from(signature);
+        if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+            return null;
+        }
+
+        let header: any;
+        let payload: any;
+        try {
+            header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+            payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+        } catch {
+            return null;
+        }
+        if (header?.alg !== 'HS256' || typeof payload !== 'object' || payload === null || typeof payload.sub !== 'string') {
+            return null;
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        if (typeof payload.exp === 'number' && now > payload.exp + clockSkew) {
+            return null;
+        }
+        if (typeof payload.nbf === 'number' && now < payload.nbf - clockSkew) {
+            return null;
+        }
+        if (options.issuer && payload.iss !== options.issuer) {
+            return null;
+        }
+        if (options.audience) {
+            const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+            if (!audiences.includes(options.audience)) {
+                return null;
+            }
+        }
+
+        return {
+            userId: payload.sub,
+            displayName: typeof payload.name === 'string' ? payload.name : undefined,
+            roles: Array.isArray(payload.roles) ? payload.roles.filter((role: unknown) => typeof role === 'string') : undefined,
+        };
+    };
+}
+
+/**
+ * Reads a token from an upgrade request: an `Authorization: Bearer` header,
+ * or a `token` query parameter for clients (such as browsers) that cannot set headers.
+ * @param {IncomingMessage} request - The upgrade request.
+ * @returns {string | null} The token, or null if none was sent.
+ */
+export function extractToken(request: IncomingMessage): string | null {
+    const header = request.headers.authorization;
+    if (header && header.startsWith('Bearer ')) {
+        return header.slice('Bearer '.length).trim() || null;
+    }
+    const url = new URL(request.url ?? '/', 'ws://localhost');
+    return url.searchParams.get('token');
+}
+
+/**
+ * Puts an IP address in the form bans and per-address limits use. A dual-stack
+ * listener reports IPv4 clients as IPv4-mapped IPv6 (`::ffff:a.b.c.d`), so those
+ * are turned back into plain IPv4.
+ * @param {string} address - The address, as reported by a socket or given by an operator.
+ * @returns {string} The normalized address.
+ */
+export function normalizeAddress(address: string): string {
+    const mapped = /^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i.exec(address.trim());
+    return mapped ? mapped[1] : address.trim().toLowerCase();
+}
+
+/**
+ * User IDs and IP addresses that may not connect. Addresses are normalized
+ * (see `normalizeAddress`) when banned, unbanned and checked.
+ */
+export class BanList {
+    private bannedUsers: Set<string>;
+    private bannedAddresses: Set<string>;
+
+    /**
+     * Creates a new BanList.
+     * @param {string[]} userIds - Users banned from the start (optional).
+     * @param {string[]} addresses - IP addresses banned from the start (optional).
+     */
+    constructor(userIds: string[] = [], addresses: string[] = []) {
+        this.bannedUsers = new Set<string>(userIds);
+        this.bannedAddresses = new Set<string>(addresses.map(normalizeAddress));
+    }
+
+    /**
+     * Bans a user.
+     * @param {string} userId - The ID of the user.
+     */
+    public ban(userId: string): void {
+        this.bannedUsers.add(userId);
+    }
+
+    /**
+     * Lifts a user's ban.
+     * @param {string} userId - The ID of the user.
+     * @returns {boolean} True if the user was banned.
+     */
+    public unban(userId: string): boolean {
+        return this.bannedUsers.delete(userId);
+    }
+
+    /**
+     * Checks whether a user is banned.
+     * @param {string} userId - The ID of the user.
+     * @returns {boolean} True if the user is banned.
+     */
+    public isBanned(userId: string): boolean {
+        return this.bannedUsers.has(userId);
+    }
+
+    /**
+     * Bans an IP address, anonymous or not.
+     * @param {string} address - The address, as reported by the socket.
+     */
+    public banAddress(address: string): void {
+        this.bannedAddresses.add(normalizeAddress(address));
+    }
+
+    /**
+     * Lifts an IP address's ban.
+     * @param {string} address - The address.
+     * @returns {boolean} True if the address was banned.
+     */
+    public unbanAddress(address: string): boolean {
+        return this.bannedAddresses.delete(normalizeAddress(address));
+    }
+
+    /**
+     * Checks whether an IP address is banned.
+     * @param {string} address - The address.
+     * @returns {boolean} True if the address is banned.
+     */
+    public isAddressBanned(address: string): boolean {
+        return this.bannedAddresses.has(normalizeAddress(address));
+    }
+
+    /**
+     * Lists every ban.
+     * @returns {{ userIds: string[]; addresses: string[] }} The banned user IDs and IP addresses.
+     */
+    public list(): { userIds: string[]; addresses: string[] } {
+        return { userIds: Array.from(this.bannedUsers), addresses: Array.from(this.bannedAddresses) };
+    }
+}
+
+/**
+ * Runs the configured verifier against upgrade requests and applies bans.
+ */
+export class Authenticator {
+    private readonly verifier: AuthVerifier | null;
+    private readonly required: boolean;
+    public readonly bans: BanList;
+
+    /**
+     * Creates a new Authenticator.
+     * @param {AuthVerifier | null} verifier - Verifier for presented tokens, or null to accept everyone anonymously.
+     * @param {boolean} required - Whether connections without a valid token are refused.
+     * @param {BanList} bans - Users to turn away (optional).
+     */
+    constructor(verifier: AuthVerifier | null, required: boolean, bans: BanList = new BanList()) {
+        if (required && !verifier) {
+            throw new Error('Authentication is required but no verifier is configured.');
+        }
+        this.verifier = verifier;
+        this.required = required;
+        this.bans = bans;
+    }
+
+    /**
+     * Authenticates an upgrade request.
+     * @param {IncomingMessage} request - The upgrade request.
+     * @returns {Promise<AuthResult>} The identity, or the HTTP status and reason to refuse the upgrade with.
+     */
+    public async authenticate(request: IncomingMessage): Promise<AuthResult> {
+        if (this.bans.isAddressBanned(request.socket.remoteAddress ?? 'unknown')) {
+            return { ok: false, status: 403, reason: 'Banned' };
+        }
+        const token = extractToken(request);
+        if (!token || !this.verifier) {
+            return this.required ? { ok: false, status: 401, reason: 'Authentication required' } : { ok: true, identity: null };
+        }
+
+        let identity: Identity | null;
+        try {
+            identity = await this.verifier(token, request);
+        } catch (error) {
+            console.error('Auth verifier failed:', error);
+            identity = null;
+        }
+        if (!identity) {
+            // A bad token is refused even when authentication is optional
+            return { ok: false, status: 401, reason: 'Invalid token' };
+        }
+        if (this.bans.isBanned(identity.userId)) {
+            return { ok: false, status: 403, reason: 'Banned' };
+        }
+        return { ok: true, identity };
+    }
+}
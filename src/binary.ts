@@ -0,0 +1,622 @@
+// Hand-packed binary layout for the high-frequency messages (state, delta,
+// enter/leave and client moves), used when PROTOCOL_CONFIG.USE_BINARY is set.
+//
+// Every binary frame starts with a one-byte opcode below 0x80. MessagePack maps
+// always start with 0x80 or above, so clients can tell binary frames apart from
+// the msgpack-encoded messages that have no binary layout.
+//
+// All multi-byte values are little-endian. Player records are:
+//   u16 handle, u8 flags,
+//   [16 bytes player UUID]          if flags & RECORD_HAS_ID
+//   [u8 length, UTF-8 bytes name]   if flags & RECORD_HAS_NAME (length 0 = no name)
+//   i16 x, i16 y, i16 z, i16 rot
+//   [i16 vx, i16 vy, i16 vz]        if flags & RECORD_HAS_VELOCITY
+//   [i16 pitch]                     if flags & RECORD_HAS_PITCH
+//   [i16 qx, i16 qy, i16 qz, i16 qw] if flags & RECORD_HAS_ORIENTATION
+//   [u16 length, MessagePack map]   if flags & RECORD_HAS_ATTRIBUTES
+// Positions and velocities are fixed-point with POSITION_SCALE steps per unit;
+// rotation and pitch map -180..180 degrees onto the full int16 range, and
+// quaternion components map -1..1 onto it. The optional parts are only present
+// in worlds that use them, so plain X/Z worlds keep the 11-byte record.
+// Custom attributes are free-form like entity properties, so they are not hand-packed either.
+//
+// State and delta frames may end with an entity section: u32 length followed by
+// a MessagePack array of entity states. Entities change rarely and carry free-form
+// properties, so they are not hand-packed. The section is absent when there are none.
+import { encode, decode } from '@msgpack/msgpack';
+import { parse as uuidParse, stringify as uuidStringify } from 'uuid';
+import { PlayerState, AttributeValue } from './player';
+import { EntityState } from './entity';
+import { ServerMessage, CustomServerMessage, MoveMessage, StateUpdateMessage, DeltaUpdateMessage, PlayerEnterMessage, PlayerLeaveMessage } from './protocol';
+
+export const BINARY_OPCODES = {
+    STATE: 0x01, // u32 seq, u32 tick, u32 t, u16 count, records (always carry ID and name), [entity section]
+    DELTA: 0x02, // u32 seq, u32 tick, u32 t, u16 count, records, [entity section]
+    ENTER: 0x03, // u32 t, u16 count, records
+    LEAVE: 0x04, // u32 t, u16 count, u16 handles
+    MOVE: 0x10, // client -> server: i16 x, i16 z, i16 rot, u32 t, [u8 flags, [i16 y], [i16 pitch], [i16 qx, qy, qz, qw]]
+};
+
+const RECORD_HAS_ID = 0x01;
+const RECORD_HAS_NAME = 0x02;
+const RECORD_HAS_VELOCITY = 0x04;
+const RECORD_HAS_PITCH = 0x08;
+const RECORD_HAS_ORIENTATION = 0x10;
+const RECORD_HAS_ATTRIBUTES = 0x20;
+
+const MOVE_HAS_Y = 0x01;
+const MOVE_HAS_PITCH = 0x02;
+const MOVE_HAS_ORIENTATION = 0x04;
+
+export const POSITION_SCALE = 32; // 1/32 unit resolution, range of +/-1024 units
+const ROTATION_SCALE = 32767 / 180;
+const QUATERNION_SCALE = 32767;
+const MAX_NAME_BYTES = 255;
+const INT16_MIN = -32768;
+const INT16_MAX = 32767;
+
+/**
+ * Per-connection record of what the client already knows about each player,
+ * so IDs are only sent the first time a player is seen and names only when they change.
+ */
+export interface BinaryEncodingContext {
+    knownPlayers: Map<string, { handle: number; name: string | null }>; // Maps player ID to the handle and name last sent
+}
+
+/**
+ * Creates an empty encoding context for a new connection.
+ * @returns {BinaryEncodingContext} The context.
+ */
+export function createBinaryEncodingContext(): BinaryEncodingContext {
+    return { knownPlayers: new Map() };
+}
+
+/**
+ * Assigns short numeric handles to player IDs so binary records can refer to
+ * players with two bytes instead of a 36-character UUID.
+ */
+export class PlayerHandleRegistry {
+    private handles: Map<string, number>; // Maps player ID to handle
+    private inUse: Set<number>;
+    private nextHandle = 0;
+
+    constructor() {
+        this.handles = new Map<string, number>();
+        this.inUse = new Set<number>();
+    }
+
+    /**
+     * Assigns a handle to a player, or returns the one it already has.
+     * Handles are handed out round-robin so a released handle is not reused immediately.
+     * @param {string} playerId - The ID of the player.
+     * @returns {number} The player's handle.
+     */
+    public assign(playerId: string): number {
+        const existing = this.handles.get(playerId);
+        if (existing !== undefined) {
+            return existing;
+        }
+        if (this.inUse.size >= 0x10000) {
+            throw new Error('No free player handles left.');
+        }
+        while (this.inUse.has(this.nextHandle)) {
+            this.nextHandle = (this.nextHandle + 1) & 0xffff;
+        }
+        const handle = this.nextHandle;
+        this.nextHandle = (this.nextHandle + 1) & 0xffff;
+        this.handles.set(playerId, handle);
+        this.inUse.add(handle);
+        return handle;
+    }
+
+    /**
+     * Gets a player's handle.
+     * @param {string} playerId - The ID of the player.
+     * @returns {number | undefined} The handle, or undefined if none is assigned.
+     */
+    public get(playerId: string): number | undefined {
+        return this.handles.get(playerId);
+    }
+
+    /**
+     * Releases a player's handle so it can eventually be reused.
+     * @param {string} playerId - The ID of the player.
+     */
+    public release(playerId: string): void {
+        const handle = this.handles.get(playerId);
+        if (handle !== undefined) {
+            this.handles.delete(playerId);
+            this.inUse.delete(handle);
+        }
+    }
+}
+
+// Server-wide handle registry, filled in when connections open
+export const playerHandles = new PlayerHandleRegistry();
+
+/**
+ * Growable little-endian byte writer.
+ */
+class BinaryWriter {
+    private buffer: Uint8Array;
+    private view: DataView;
+    private offset = 0;
+
+    constructor(initialSize: number = 64) {
+        this.buffer = new Uint8Array(initialSize);
+        this.view = new DataView(this.buffer.buffer);
+    }
+
+    private ensure(bytes: number): void {
+        if (this.offset + bytes <= this.buffer.length) {
+            return;
+        }
+        const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.offset + bytes));
+        grown.set(this.buffer);
+        this.buffer = grown;
+        this.view = new DataView(grown.buffer);
+    }
+
+    public u8(value: number): void {
+        this.ensure(1);
+        this.view.setUint8(this.offset, value);
+        this.offset += 1;
+    }
+
+    public u16(value: number): void {
+        this.ensure(2);
+        this.view.setUint16(this.offset, value, true);
+        this.offset += 2;
+    }
+
+    public i16(value: number): void {
+        this.ensure(2);
+        this.view.setInt16(this.offset, value, true);
+        this.offset += 2;
+    }
+
+    public u32(value: number): void {
+        this.ensure(4);
+        this.view.setUint32(this.offset, value, true);
+        this.offset += 4;
+    }
+
+    public bytes(value: Uint8Array): void {
+        this.ensure(value.length);
+        this.buffer.set(value, this.offset);
+        this.offset += value.length;
+    }
+
+    public finish(): Uint8Array {
+        return this.buffer.slice(0, this.offset);
+    }
+}
+
+/**
+ * Little-endian byte reader that throws when reading past the end.
+ */
+class BinaryReader {
+    private readonly data: Uint8Array;
+    private view: DataView;
+    private offset = 0;
+
+    constructor(data: Uint8Array) {
+        this.data = data;
+        this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    private check(bytes: number): void {
+        if (this.offset + bytes > this.data.length) {
+            throw new RangeError('Binary message is truncated.');
+        }
+    }
+
+    public u8(): number {
+        this.check(1);
+        const value = this.view.getUint8(this.offset);
+        this.offset += 1;
+        return value;
+    }
+
+    public u16(): number {
+        this.check(2);
+        const value = this.view.getUint16(this.offset, true);
+        this.offset += 2;
+        return value;
+    }
+
+    public i16(): number {
+        this.check(2);
+        const value = this.view.getInt16(this.offset, true);
+        this.offset += 2;
+        return value;
+    }
+
+    public u32(): number {
+        this.check(4);
+        const value = this.view.getUint32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+
+    public get remaining(): number {
+        return this.data.length - this.offset;
+    }
+
+    public bytes(length: number): Uint8Array {
+        this.check(length);
+        const value = this.data.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return value;
+    }
+}
+
+/**
+ * Quantizes a coordinate to int16 fixed-point, saturating at the range limits.
+ */
+function quantizePosition(value: number): number {
+    return Math.max(INT16_MIN, Math.min(INT16_MAX, Math.round(value * POSITION_SCALE)));
+}
+
+/**
+ * Quantizes a rotation in degrees to int16 after wrapping it into -180..180.
+ */
+function quantizeRotation(degrees: number): number {
+    const wrapped = ((degrees % 360) + 540) % 360 - 180;
+    return Math.max(INT16_MIN, Math.min(INT16_MAX, Math.round(wrapped * ROTATION_SCALE)));
+}
+
+/**
+ * Quantizes a quaternion component in -1..1 to int16.
+ */
+function quantizeQuaternion(value: number): number {
+    return Math.max(-QUATERNION_SCALE, Math.min(QUATERNION_SCALE, Math.round(value * QUATERNION_SCALE)));
+}
+
+/**
+ * Writes a player record, including the ID and name only if the context says
+ * the client does not have them yet (or always, if there is no context).
+ */
+function writePlayerRecord(writer: BinaryWriter, player: PlayerState, context: BinaryEncodingContext | undefined, forceFull: boolean): void {
+    const handle = playerHandles.get(player.id) ?? context?.knownPlayers.get(player.id)?.handle;
+    if (handle === undefined) {
+        throw new Error(`Player ${player.id} has no binary handle.`);
+    }
+    const known = context?.knownPlayers.get(player.id);
+    let flags = 0;
+    if (forceFull || !known || known.handle !== handle) {
+        flags |= RECORD_HAS_ID | RECORD_HAS_NAME;
+    } else if (known.name !== player.name) {
+        flags |= RECORD_HAS_NAME;
+    }
+    if (player.vx !== undefined) {
+        flags |= RECORD_HAS_VELOCITY;
+    }
+    if (player.pitch !== undefined) {
+        flags |= RECORD_HAS_PITCH;
+    }
+    if (player.qx !== undefined) {
+        flags |= RECORD_HAS_ORIENTATION;
+    }
+    const attributes = player.attrs ? encode(player.attrs) : null;
+    if (attributes) {
+        if (attributes.length > 0xffff) {
+            throw new Error(`Attributes of player ${player.id} do not fit in a binary record.`);
+        }
+        flags |= RECORD_HAS_ATTRIBUTES;
+    }
+
+    writer.u16(handle);
+    writer.u8(flags);
+    if (flags & RECORD_HAS_ID) {
+        writer.bytes(uuidParse(player.id));
+    }
+    if (flags & RECORD_HAS_NAME) {
+        const nameBytes = player.name ? new TextEncoder().encode(player.name).subarray(0, MAX_NAME_BYTES) : new Uint8Array(0);
+        writer.u8(nameBytes.length);
+        writer.bytes(nameBytes);
+    }
+    writer.i16(quantizePosition(player.x));
+    writer.i16(quantizePosition(player.y));
+    writer.i16(quantizePosition(player.z));
+    writer.i16(quantizeRotation(player.rot));
+    if (flags & RECORD_HAS_VELOCITY) {
+        writer.i16(quantizePosition(player.vx!));
+        writer.i16(quantizePosition(player.vy ?? 0));
+        writer.i16(quantizePosition(player.vz ?? 0));
+    }
+    if (flags & RECORD_HAS_PITCH) {
+        writer.i16(quantizeRotation(player.pitch!));
+    }
+    if (flags & RECORD_HAS_ORIENTATION) {
+        writer.i16(quantizeQuaternion(player.qx!));
+        writer.i16(quantizeQuaternion(player.qy ?? 0));
+        writer.i16(quantizeQuaternion(player.qz ?? 0));
+        writer.i16(quantizeQuaternion(player.qw ?? 1));
+    }
+    if (attributes) {
+        writer.u16(attributes.length);
+        writer.bytes(attributes);
+    }
+
+    context?.knownPlayers.set(player.id, { handle, name: player.name });
+}
+
+/**
+ * Appends the MessagePack entity section, if there are any entities.
+ */
+function writeEntitySection(writer: BinaryWriter, entities: EntityState[] | undefined): void {
+    if (!entities || entities.length === 0) {
+        return;
+    }
+    const packed = encode(entities);
+    writer.u32(packed.length);
+    writer.bytes(packed);
+}
+
+/**
+ * Checks whether a server message has a binary layout.
+ * @param {ServerMessage | CustomServerMessage} message - The message to check.
+ * @returns {boolean} True if `encodeBinaryServerMessage` can encode it.
+ */
+export function hasBinaryLayout(message: ServerMessage | CustomServerMessage): message is StateUpdateMessage | DeltaUpdateMessage | PlayerEnterMessage | PlayerLeaveMessage {
+    return message.type === 'state' || message.type === 'delta' || message.type === 'player_enter' || message.type === 'player_leave';
+}
+
+/**
+ * Encodes a state, delta, enter or leave message in the binary layout.
+ * @param {ServerMessage} message - The message to encode; must satisfy `hasBinaryLayout`.
+ * @param {BinaryEncodingContext} context - What the receiving client already knows (optional, IDs and names are always sent without it).
+ * @returns {Uint8Array} The encoded frame.
+ */
+export function encodeBinaryServerMessage(message: ServerMessage, context?: BinaryEncodingContext): Uint8Array {
+    const writer = new BinaryWriter();
+    switch (message.type) {
+        case 'state': {
+            const stateMsg = message as StateUpdateMessage;
+            writer.u8(BINARY_OPCODES.STATE);
+            writer.u32(stateMsg.seq);
+            writer.u32(stateMsg.tick);
+            writer.u32(stateMsg.t);
+            writer.u16(stateMsg.players.length);
+            // A keyframe replaces everything the client knows
+            context?.knownPlayers.clear();
+            stateMsg.players.forEach(player => writePlayerRecord(writer, player, context, true));
+            writeEntitySection(writer, stateMsg.entities);
+            break;
+        }
+        case 'delta': {
+            const deltaMsg = message as DeltaUpdateMessage;
+            writer.u8(BINARY_OPCODES.DELTA);
+            writer.u32(deltaMsg.seq);
+            writer.u32(deltaMsg.tick);
+            writer.u32(deltaMsg.t);
+            writer.u16(deltaMsg.players.length);
+            deltaMsg.players.forEach(player => writePlayerRecord(writer, player, context, false));
+            writeEntitySection(writer, deltaMsg.entities);
+            break;
+        }
+        case 'player_enter': {
+            const enterMsg = message as PlayerEnterMessage;
+            writer.u8(BINARY_OPCODES.ENTER);
+            writer.u32(enterMsg.t);
+            writer.u16(enterMsg.players.length);
+            enterMsg.players.forEach(player => writePlayerRecord(writer, player, context, false));
+            break;
+        }
+        case 'player_leave': {
+            const leaveMsg = message as PlayerLeaveMessage;
+            // The player may already have released its handle, so prefer the one the client knows
+            const handles: number[] = [];
+            leaveMsg.playerIds.forEach(id => {
+                const handle = context?.knownPlayers.get(id)?.handle ?? playerHandles.get(id);
+                if (handle !== undefined) {
+                    handles.push(handle);
+                }
+                context?.knownPlayers.delete(id);
+            });
+            writer.u8(BINARY_OPCODES.LEAVE);
+            writer.u32(leaveMsg.t);
+            writer.u16(handles.length);
+            handles.forEach(handle => writer.u16(handle));
+            break;
+        }
+        default:
+            throw new Error(`Message type ${message.type} has no binary layout.`);
+    }
+    return writer.finish();
+}
+
+/**
+ * A player record as decoded from a binary frame. `id` and `name` are only
+ * present when the frame carried them; otherwise the client's handle table supplies them.
+ */
+export interface BinaryPlayerRecord {
+    handle: number;
+    id?: string;
+    name?: string | null;
+    x: number;
+    y: number;
+    z: number;
+    rot: number;
+    vx?: number;
+    vy?: number;
+    vz?: number;
+    pitch?: number;
+    qx?: number;
+    qy?: number;
+    qz?: number;
+    qw?: number;
+    attrs?: Record<string, AttributeValue>;
+}
+
+/**
+ * A decoded binary server frame.
+ */
+export type BinaryServerFrame =
+    | { type: 'state' | 'delta'; seq: number; tick: number; t: number; players: BinaryPlayerRecord[]; entities: EntityState[] }
+    | { type: 'player_enter'; t: number; players: BinaryPlayerRecord[] }
+    | { type: 'player_leave'; t: number; handles: number[] };
+
+/**
+ * Reads a player record.
+ */
+function readPlayerRecord(reader: BinaryReader): BinaryPlayerRecord {
+    const handle = reader.u16();
+    const flags = reader.u8();
+    const record: Partial<BinaryPlayerRecord> = { handle };
+    if (flags & RECORD_HAS_ID) {
+        record.id = uuidStringify(reader.bytes(16));
+    }
+    if (flags & RECORD_HAS_NAME) {
+        const length = reader.u8();
+        record.name = length > 0 ? new TextDecoder().decode(reader.bytes(length)) : null;
+    }
+    record.x = reader.i16() / POSITION_SCALE;
+    record.y = reader.i16() / POSITION_SCALE;
+    record.z = reader.i16() / POSITION_SCALE;
+    record.rot = reader.i16() / ROTATION_SCALE;
+    if (flags & RECORD_HAS_VELOCITY) {
+        record.vx = reader.i16() / POSITION_SCALE;
+        record.vy = reader.i16() / POSITION_SCALE;
+        record.vz = reader.i16() / POSITION_SCALE;
+    }
+    if (flags & RECORD_HAS_PITCH) {
+        record.pitch = reader.i16() / ROTATION_SCALE;
+    }
+    if (flags & RECORD_HAS_ORIENTATION) {
+        record.qx = reader.i16() / QUATERNION_SCALE;
+        record.qy = reader.i16() / QUATERNION_SCALE;
+        record.qz = reader.i16() / QUATERNION_SCALE;
+        record.qw = reader.i16() / QUATERNION_SCALE;
+    }
+    if (flags & RECORD_HAS_ATTRIBUTES) {
+        record.attrs = decode(reader.bytes(reader.u16())) as Record<string, AttributeValue>;
+    }
+    return record as BinaryPlayerRecord;
+}
+
+/**
+ * Decodes a binary server frame (the client side of `encodeBinaryServerMessage`).
+ * @param {Uint8Array} data - The frame.
+ * @returns {BinaryServerFrame | null} The decoded frame, or null if the opcode is not a server frame.
+ */
+export function decodeBinaryServerMessage(data: Uint8Array): BinaryServerFrame | null {
+    const reader = new BinaryReader(data);
+    const opcode = reader.u8();
+    switch (opcode) {
+        case BINARY_OPCODES.STATE:
+        case BINARY_OPCODES.DELTA: {
+            const seq = reader.u32();
+            const tick = reader.u32();
+            const t = reader.u32();
+            const count = reader.u16();
+            const players: BinaryPlayerRecord[] = [];
+            for (let i = 0; i < count; i++) {
+                players.push(readPlayerRecord(reader));
+            }
+            const entities = reader.remaining > 0 ? decode(reader.bytes(reader.u32())) as EntityState[] : [];
+            return { type: opcode === BINARY_OPCODES.STATE ? 'state' : 'delta', seq, tick, t, players, entities };
+        }
+        case BINARY_OPCODES.ENTER: {
+            const t = reader.u32();
+            const count = reader.u16();
+            const players: BinaryPlayerRecord[] = [];
+            for (let i = 0; i < count; i++) {
+                players.push(readPlayerRecord(reader));
+            }
+            return { type: 'player_enter', t, players };
+        }
+        case BINARY_OPCODES.LEAVE: {
+            const t = reader.u32();
+            const count = reader.u16();
+            const handles: number[] = [];
+            for (let i = 0; i < count; i++) {
+                handles.push(reader.u16());
+            }
+            return { type: 'player_leave', t, handles };
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Encodes a client move in the binary layout. The flags byte and the fields
+ * after it are only written if the move has a Y, pitch or quaternion; the
+ * quaternion is sent only if all four components are set and should be normalized.
+ * @param {MoveMessage} message - The move to encode.
+ * @returns {Uint8Array} The encoded frame.
+ */
+export function encodeBinaryMove(message: MoveMessage): Uint8Array {
+    const writer = new BinaryWriter(11);
+    writer.u8(BINARY_OPCODES.MOVE);
+    writer.i16(quantizePosition(message.x));
+    writer.i16(quantizePosition(message.z));
+    writer.i16(quantizeRotation(message.rot));
+    writer.u32(message.t);
+
+    const { y, pitch, qx, qy, qz, qw } = message;
+    const hasOrientation = qx !== undefined && qy !== undefined && qz !== undefined && qw !== undefined;
+    const flags = (y !== undefined ? MOVE_HAS_Y : 0) | (pitch !== undefined ? MOVE_HAS_PITCH : 0) | (hasOrientation ? MOVE_HAS_ORIENTATION : 0);
+    if (flags) {
+        writer.u8(flags);
+        if (y !== undefined) {
+            writer.i16(quantizePosition(y));
+        }
+        if (pitch !== undefined) {
+            writer.i16(quantizeRotation(pitch));
+        }
+        if (hasOrientation) {
+            writer.i16(quantizeQuaternion(qx));
+            writer.i16(quantizeQuaternion(qy));
+            writer.i16(quantizeQuaternion(qz));
+            writer.i16(quantizeQuaternion(qw));
+        }
+    }
+    return writer.finish();
+}
+
+/**
+ * Checks whether a client frame uses the binary layout.
+ * @param {Uint8Array} data - The frame.
+ * @returns {boolean} True if the first byte is a binary opcode rather than the start of a msgpack map.
+ */
+export function isBinaryFrame(data: Uint8Array): boolean {
+    return data.length > 0 && data[0] < 0x80;
+}
+
+/**
+ * Decodes a binary client frame. Only `move` has a binary layout.
+ * @param {Uint8Array} data - The frame.
+ * @returns {MoveMessage | null} The decoded move, or null if the opcode is unknown.
+ */
+export function decodeBinaryClientMessage(data: Uint8Array): MoveMessage | null {
+    const reader = new BinaryReader(data);
+    if (reader.u8() !== BINARY_OPCODES.MOVE) {
+        return null;
+    }
+    const move: MoveMessage = {
+        type: 'move',
+        x: reader.i16() / POSITION_SCALE,
+        z: reader.i16() / POSITION_SCALE,
+        rot: reader.i16() / ROTATION_SCALE,
+        t: reader.u32(),
+    };
+    if (reader.remaining > 0) {
+        const flags = reader.u8();
+        if (flags & MOVE_HAS_Y) {
+            move.y = reader.i16() / POSITION_SCALE;
+        }
+        if (flags & MOVE_HAS_PITCH) {
+            move.pitch = reader.i16() / ROTATION_SCALE;
+        }
+        if (flags & MOVE_HAS_ORIENTATION) {
+            move.qx = reader.i16() / QUATERNION_SCALE;
+            move.qy = reader.i16() / QUATERNION_SCALE;
+            move.qz = reader.i16() / QUATERNION_SCALE;
+            move.qw = reader.i16() / QUATERNION_SCALE;
+        }
+    }
+    return move;
+}
@@ -0,0 +1,113 @@
+// Text chat: chat lines, word filters and the history replayed to players who join late.
+import { ChatChannel } from './protocol';
+
+/**
+ * A chat line as delivered to clients.
+ * @property {ChatChannel} channel - The channel it was sent on.
+ * @property {string} from - ID of the sending player.
+ * @property {string | null} fromName - Display name of the sender when it was sent, if it had one.
+ * @property {string} to - Name of the recipient (whispers only).
+ * @property {string} text - The (filtered) text.
+ * @property {number} sentAt - Server time the line was sent (ms since the epoch).
+ */
+export interface ChatLine {
+    channel: ChatChannel;
+    from: string;
+    fromName: string | null;
+    to?: string;
+    text: string;
+    sentAt: number;
+}
+
+/**
+ * Outcome of sending a chat line.
+ */
+export type ChatResult =
+    | { ok: true; line: ChatLine }
+    | { ok: false; reason: string };
+
+/**
+ * Checks chat text before it is delivered.
+ * Returns the text to deliver (possibly with words masked), or null to block the line.
+ */
+export type WordFilter = (text: string) => string | null;
+
+/**
+ * Chat settings for a room.
+ * @property {number} maxLength - Longest line accepted, in characters.
+ * @property {number} historySize - Global lines kept for players who join later.
+ * @property {number} proximityRadius - X/Z distance within which proximity chat is heard.
+ * @property {WordFilter | null} filter - Filter applied to every line, or null for none.
+ */
+export interface ChatConfig {
+    maxLength: number;
+    historySize: number;
+    proximityRadius: number;
+    filter: WordFilter | null;
+}
+
+export const DEFAULT_CHAT_CONFIG: ChatConfig = {
+    maxLength: 200,
+    historySize: 50,
+    proximityRadius: 20,
+    filter: null,
+};
+
+/**
+ * Creates a filter for a list of blocked words, matched case-insensitively as whole words.
+ * @param {string[]} words - The blocked words.
+ * @param {'mask' | 'block'} mode - Whether matches are replaced by asterisks or the whole line is blocked.
+ * @returns {WordFilter} The filter.
+ */
+export function createWordListFilter(words: string[], mode: 'mask' | 'block' = 'mask'): WordFilter {
+    const escaped = words.filter(word => word.length > 0).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (escaped.length === 0) {
+        return text => text;
+    }
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+    return text => {
+        if (mode === 'block') {
+            pattern.lastIndex = 0;
+            return pattern.test(text) ? null : text;
+        }
+        return text.replace(pattern, match => '*'.repeat(match.length));
+    };
+}
+
+/**
+ * The most recent global chat lines of a room, oldest first.
+ */
+export class ChatHistory {
+    private readonly size: number;
+    private lines: ChatLine[] = [];
+
+    /**
+     * Creates a new ChatHistory.
+     * @param {number} size - Number of lines to keep (0 keeps none).
+     */
+    constructor(size: number) {
+        this.size = size;
+    }
+
+    /**
+     * Appends a line, dropping the oldest one if the history is full.
+     * @param {ChatLine} line - The line to append.
+     */
+    public add(line: ChatLine): void {
+        if (this.size <= 0) {
+            return;
+        }
+        this.lines.push(line);
+        if (this.lines.length > this.size) {
+            this.lines.shift();
+        }
+    }
+
+    /**
+     * Gets the kept lines, oldest first.
+     * @returns {ChatLine[]} A copy of the lines.
+     */
+    public getLines(): ChatLine[] {
+        return [...this.lines];
+    }
+}
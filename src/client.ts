@@ -0,0 +1,297 @@
+// Headless client for bots, load tests and tools: speaks the protocol in JSON
+// or MessagePack and keeps a local copy of the players it can see.
+import { EventEmitter } from 'events';
+import { WebSocket } from 'ws';
+import { encode, decode } from '@msgpack/msgpack';
+import { formatSubprotocol, getTimecode, PROTOCOL_VERSION, ClientMessage, ServerMessage, MoveMessage, PositionCorrectionMessage, SetNameMessage, PongMessage, ResyncRequestMessage } from './protocol';
+import { PlayerState } from './player';
+import { MoveTransform } from './game';
+
+/**
+ * Formats the client can speak. The binary format's hand-packed frames are not decoded.
+ */
+export type ClientFormat = 'json' | 'msgpack';
+
+/**
+ * Settings for a KeystoneClient.
+ * @property {ClientFormat} format - Wire format, negotiated through the WebSocket subprotocol.
+ * @property {string | null} token - Sent as `Authorization: Bearer` during the upgrade, or null to connect anonymously.
+ * @property {number} connectTimeout - How long `connect()` waits for an `id_assignment` (ms).
+ */
+export interface KeystoneClientOptions {
+    format: ClientFormat;
+    token: string | null;
+    connectTimeout: number;
+}
+
+export const DEFAULT_CLIENT_OPTIONS: KeystoneClientOptions = {
+    format: 'json',
+    token: null,
+    connectTimeout: 5000,
+};
+
+/**
+ * Events a KeystoneClient emits. `message` fires for every server message,
+ * before the more specific events.
+ */
+export type KeystoneClientEvents = {
+    message: [message: ServerMessage];
+    update: [message: ServerMessage & { type: 'state' | 'delta' }]; // After the local players were updated
+    connected: [playerId: string];
+    disconnected: [playerId: string];
+    correction: [state: Omit<PositionCorrectionMessage, 'type' | 't'>]; // Y, pitch and orientation only in worlds that use them
+    ping: [rtt: number | null];
+    close: [code: number, reason: string];
+};
+
+/**
+ * Traffic counters of a client.
+ * @property {number} messagesReceived - Server messages received.
+ * @property {number} bytesReceived - Bytes of server messages received.
+ * @property {number} messagesSent - Client messages sent.
+ * @property {number} bytesSent - Bytes of client messages sent.
+ * @property {number} corrections - `position_correction` messages received.
+ * @property {number} resyncs - Gaps in the update sequence that made the client ask for a keyframe.
+ */
+export interface ClientStats {
+    messagesReceived: number;
+    bytesReceived: number;
+    messagesSent: number;
+    bytesSent: number;
+    corrections: number;
+    resyncs: number;
+}
+
+/**
+ * A connection to a Keystone server as a player. Answers pings, follows
+ * `state`, `delta`, `player_enter` and `player_leave` to keep `players` current,
+ * asks for a keyframe when it misses an update, and snaps its own player on
+ * `position_correction`.
+ */
+export class KeystoneClient extends EventEmitter<KeystoneClientEvents> {
+    public readonly url: string;
+    public readonly options: KeystoneClientOptions;
+    public readonly players: Map<string, PlayerState>; // Players in this client's area of interest, its own included
+    public readonly stats: ClientStats;
+    public playerId: string | null = null; // Assigned by the server on connect
+    public rtt: number | null = null; // The server's latest round-trip estimate for this connection (ms)
+    public tick: number | null = null; // Room tick of the last state/delta applied
+    private ws: WebSocket | null = null;
+    private seq: number | null = null; // Sequence number of the last state/delta applied
+
+    /**
+     * Creates a new KeystoneClient. Nothing is sent until `connect()` is called.
+     * @param {string} url - The server's WebSocket URL, e.g. `ws://localhost:8080`.
+     * @param {Partial<KeystoneClientOptions>} options - Settings that differ from DEFAULT_CLIENT_OPTIONS (optional).
+     */
+    constructor(url: string, options: Partial<KeystoneClientOptions> = {}) {
+        super();
+        this.url = url;
+        this.options = { ...DEFAULT_CLIENT_OPTIONS, ...options };
+        this.players = new Map<string, PlayerState>();
+        this.stats = { messagesReceived: 0, bytesReceived: 0, messagesSent: 0, bytesSent: 0, corrections: 0, resyncs: 0 };
+    }
+
+    /**
+     * Gets this client's own player as last reported by the server.
+     * @returns {PlayerState | null} The player, or null before the first state arrives.
+     */
+    public get self(): PlayerState | null {
+        return this.playerId ? this.players.get(this.playerId) ?? null : null;
+    }
+
+    /**
+     * Checks whether the connection is open.
+     * @returns {boolean} True if messages can be sent.
+     */
+    public isOpen(): boolean {
+        return this.ws?.readyState === WebSocket.OPEN;
+    }
+
+    /**
+     * Connects and waits for the server to assign a player ID.
+     * @returns {Promise<string>} The player ID.
+     * @throws {Error} If already connected, or the connection fails, closes or times out first.
+     */
+    public connect(): Promise<string> {
+        if (this.ws) {
+            return Promise.reject(new Error('KeystoneClient is already connected.'));
+        }
+        const headers: Record<string, string> = this.options.token ? { Authorization: `Bearer ${this.options.token}` } : {};
+        const ws = new WebSocket(this.url, formatSubprotocol(PROTOCOL_VERSION, this.options.format), { headers });
+        this.ws = ws;
+        ws.on('message', (data, isBinary) => this.handleFrame(data as Buffer, isBinary));
+        ws.on('close', (code, reason) => {
+            this.ws = null;
+            this.emit('close', code, reason.toString());
+        });
+
+        return new Promise<string>((resolve, reject) => {
+            const fail = (error: Error): void => {
+                clearTimeout(timer);
+                this.off('message', onMessage);
+                ws.off('close', onClose);
+                ws.terminate();
+                reject(error);
+            };
+            const timer = setTimeout(() => fail(new Error('Timed out waiting for a player ID.')), this.options.connectTimeout);
+            const onMessage = (message: ServerMessage): void => {
+                if (message.type === 'id_assignment') {
+                    clearTimeout(timer);
+                    this.off('message', onMessage);
+                    ws.off('close', onClose);
+                    ws.off('error', fail);
+                    ws.on('error', error => console.error(`Client ${message.playerId} connection error:`, error));
+                    resolve(message.playerId);
+                }
+            };
+            const onClose = (code: number, reason: Buffer): void => fail(new Error(`Connection closed (${code} ${reason.toString()}).`));
+            this.on('message', onMessage);
+            ws.once('error', fail);
+            ws.once('close', onClose);
+        });
+    }
+
+    /**
+     * Closes the connection.
+     * @returns {Promise<void>} Resolves once it is closed.
+     */
+    public close(): Promise<void> {
+        const ws = this.ws;
+        if (!ws) {
+            return Promise.resolve();
+        }
+        return new Promise<void>(resolve => {
+            ws.once('close', () => resolve());
+            ws.close(1000, 'Client closing');
+        });
+    }
+
+    /**
+     * Sends a move of this client's player.
+     * @param {number} x - The new X coordinate.
+     * @param {number} z - The new Z coordinate.
+     * @param {number} rot - The new rotation in degrees.
+     * @param {MoveTransform} transform - Y, pitch or orientation quaternion, for worlds that use them (optional).
+     * @returns {boolean} True if the message was sent.
+     */
+    public move(x: number, z: number, rot: number, transform: MoveTransform = {}): boolean {
+        return this.send({ type: 'move', x, z, rot, ...transform, t: getTimecode() } as MoveMessage);
+    }
+
+    /**
+     * Asks for a display name. The server answers with `name_accepted` or `name_rejected`.
+     * @param {string} name - The name.
+     * @returns {boolean} True if the message was sent.
+     */
+    public setName(name: string): boolean {
+        return this.send({ type: 'set_name', name, t: getTimecode() } as SetNameMessage);
+    }
+
+    /**
+     * Encodes and sends a client message.
+     * @param {ClientMessage} message - The message.
+     * @returns {boolean} True if the message was sent, false if the connection is not open.
+     */
+    public send(message: ClientMessage): boolean {
+        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+            return false;
+        }
+        const encoded = this.options.format === 'msgpack' ? encode(message) : JSON.stringify(message);
+        this.ws.send(encoded);
+        this.stats.messagesSent++;
+        this.stats.bytesSent += typeof encoded === 'string' ? Buffer.byteLength(encoded) : encoded.byteLength;
+        return true;
+    }
+
+    /**
+     * Decodes a frame and applies it.
+     */
+    private handleFrame(data: Buffer, isBinary: boolean): void {
+        this.stats.messagesReceived++;
+        this.stats.bytesReceived += data.byteLength;
+        let message: ServerMessage;
+        try {
+            message = (isBinary ? decode(data) : JSON.parse(data.toString('utf8'))) as ServerMessage;
+        } catch (error) {
+            console.warn(`Client ${this.playerId} could not decode a ${isBinary ? 'binary' : 'text'} frame.`);
+            return;
+        }
+        this.emit('message', message);
+        this.applyMessage(message);
+    }
+
+    /**
+     * Updates the local state from a server message and emits the matching event.
+     */
+    private applyMessage(message: ServerMessage): void {
+        switch (message.type) {
+            case 'id_assignment':
+                this.playerId = message.playerId;
+                break;
+            case 'state':
+                this.players.clear();
+                message.players.forEach(player => this.players.set(player.id, player));
+                this.seq = message.seq;
+                this.tick = message.tick;
+                this.emit('update', message);
+                break;
+            case 'delta':
+                if (this.seq !== null && message.seq !== this.seq + 1) {
+                    // Missed an update: ask for a keyframe and keep applying deltas meanwhile
+                    this.stats.resyncs++;
+                    this.send({ type: 'resync', lastSeq: this.seq, t: getTimecode() } as ResyncRequestMessage);
+                }
+                message.players.forEach(player => this.applyDelta(player));
+                this.seq = message.seq;
+                this.tick = message.tick;
+                this.emit('update', message);
+                break;
+            case 'player_enter':
+                message.players.forEach(player => this.players.set(player.id, player));
+                break;
+            case 'player_leave':
+                message.playerIds.forEach(id => this.players.delete(id));
+                break;
+            case 'connected':
+                this.emit('connected', message.playerId);
+                break;
+            case 'disconnected':
+                this.players.delete(message.playerId);
+                this.emit('disconnected', message.playerId);
+                break;
+            case 'position_correction': {
+                this.stats.corrections++;
+                const { type, t, ...correction } = message;
+                const self = this.self;
+                if (self) {
+                    this.players.set(self.id, { ...self, ...correction });
+                }
+                this.emit('correction', correction);
+                break;
+            }
+            case 'ping':
+                // Answer with our own clock so the server can estimate the offset
+                this.send({ type: 'pong', id: message.id, t: getTimecode() } as PongMessage);
+                this.rtt = message.rtt;
+                this.emit('ping', message.rtt);
+                break;
+            case 'room_joined':
+            case 'room_left':
+                // The next keyframe describes the new room
+                this.players.clear();
+                this.seq = null;
+                this.tick = null;
+                break;
+        }
+    }
+
+    /**
+     * Applies a player state from a delta, which only carries the attributes that changed.
+     */
+    private applyDelta(player: PlayerState): void {
+        const known = this.players.get(player.id);
+        const attrs = known?.attrs || player.attrs ? { ...known?.attrs, ...player.attrs } : undefined;
+        this.players.set(player.id, attrs ? { ...player, attrs } : player);
+    }
+}
@@ -0,0 +1,291 @@
+// Static world geometry on the X/Z plane: collider shapes, the JSON level
+// loader and the resolver that pushes player circles out of the geometry.
+import { readFileSync } from 'fs';
+
+/**
+ * A static collider on the X/Z plane. Polygons must be simple (not self-intersecting).
+ */
+export type Collider =
+    | { shape: 'box'; minX: number; maxX: number; minZ: number; maxZ: number }
+    | { shape: 'circle'; x: number; z: number; radius: number }
+    | { shape: 'polygon'; points: [number, number][] };
+
+/**
+ * A level as stored in a level file.
+ * @property {Collider[]} colliders - The static geometry.
+ * @property {number} playerRadius - Default collision radius of players (optional).
+ * @property {object} bounds - The playable area, overriding the configured world bounds (optional).
+ */
+export interface Level {
+    colliders: Collider[];
+    playerRadius?: number;
+    bounds?: { minX: number; maxX: number; minZ: number; maxZ: number };
+}
+
+/**
+ * Outcome of resolving a circle against the geometry.
+ * @property {number} x - Resolved X coordinate.
+ * @property {number} z - Resolved Z coordinate.
+ * @property {boolean} collided - Whether the circle had to be moved.
+ */
+export interface ResolvedPosition {
+    x: number;
+    z: number;
+    collided: boolean;
+}
+
+const RESOLVE_ITERATIONS = 4; // Passes over the colliders, so pushes out of one collider into another settle
+
+/**
+ * Checks that a value is a finite number.
+ */
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Validates a single collider from a level file.
+ */
+function parseCollider(data: unknown, index: number): Collider {
+    const value = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+    switch (value.shape) {
+        case 'box': {
+            const { minX, maxX, minZ, maxZ } = value;
+            if (!isFiniteNumber(minX) || !isFiniteNumber(maxX) || !isFiniteNumber(minZ) || !isFiniteNumber(maxZ) || minX > maxX || minZ > maxZ) {
+                throw new Error(`Collider ${index}: a box needs finite minX <= maxX and minZ <= maxZ.`);
+            }
+            return { shape: 'box', minX, maxX, minZ, maxZ };
+        }
+        case 'circle': {
+            const { x, z, radius } = value;
+            if (!isFiniteNumber(x) || !isFiniteNumber(z) || !isFiniteNumber(radius) || radius <= 0) {
+                throw new Error(`Collider ${index}: a circle needs finite x, z and a positive radius.`);
+            }
+            return { shape: 'circle', x, z, radius };
+        }
+        case 'polygon': {
+            const { points } = value;
+            if (!Array.isArray(points) || points.length < 3 ||
+                !points.every((point: unknown) => Array.isArray(point) && point.length === 2 && point.every(isFiniteNumber))) {
+                throw new Error(`Collider ${index}: a polygon needs at least three [x, z] points.`);
+            }
+            return { shape: 'polygon', points: points.map((point: number[]) => [point[0], point[1]]) };
+        }
+        default:
+            throw new Error(`Collider ${index}: unknown shape ${JSON.stringify(value.shape)}.`);
+    }
+}
+
+/**
+ * Validates parsed level JSON.
+ * @param {unknown} data - The parsed JSON.
+ * @returns {Level} The level.
+ * @throws {Error} If the data is not a valid level.
+ */
+export function parseLevel(data: unknown): Level {
+    const value = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+    if (!Array.isArray(value.colliders)) {
+        throw new Error('A level needs a colliders array.');
+    }
+    const level: Level = { colliders: value.colliders.map(parseCollider) };
+    if (value.playerRadius !== undefined) {
+        if (!isFiniteNumber(value.playerRadius) || value.playerRadius < 0) {
+            throw new Error('playerRadius must be a non-negative number.');
+        }
+        level.playerRadius = value.playerRadius;
+    }
+    if (value.bounds !== undefined) {
+        const { minX, maxX, minZ, maxZ } = (typeof value.bounds === 'object' && value.bounds !== null ? value.bounds : {}) as Record<string, unknown>;
+        if (!isFiniteNumber(minX) || !isFiniteNumber(maxX) || !isFiniteNumber(minZ) || !isFiniteNumber(maxZ) || minX > maxX || minZ > maxZ) {
+            throw new Error('bounds needs finite minX <= maxX and minZ <= maxZ.');
+        }
+        level.bounds = { minX, maxX, minZ, maxZ };
+    }
+    return level;
+}
+
+/**
+ * Reads and validates a level file.
+ * @param {string} path - Path of the JSON file.
+ * @returns {Level} The level.
+ * @throws {Error} If the file cannot be read or is not a valid level.
+ */
+export function loadLevel(path: string): Level {
+    return parseLevel(JSON.parse(readFileSync(path, 'utf8')));
+}
+
+/**
+ * Gets the bounding box of a collider, for cheap rejection.
+ */
+function getColliderBounds(collider: Collider): { minX: number; maxX: number; minZ: number; maxZ: number } {
+    switch (collider.shape) {
+        case 'box':
+            return collider;
+        case 'circle':
+            return { minX: collider.x - collider.radius, maxX: collider.x + collider.radius, minZ: collider.z - collider.radius, maxZ: collider.z + collider.radius };
+        case 'polygon': {
+            const xs = collider.points.map(point => point[0]);
+            const zs = collider.points.map(point => point[1]);
+            return { minX: Math.min(...xs), maxX: Math.max(...xs), minZ: Math.min(...zs), maxZ: Math.max(...zs) };
+        }
+    }
+}
+
+/**
+ * Pushes a circle out of a box. Returns null if they do not overlap.
+ */
+function pushOutOfBox(x: number, z: number, radius: number, box: { minX: number; maxX: number; minZ: number; maxZ: number }): [number, number] | null {
+    const closestX = Math.min(box.maxX, Math.max(box.minX, x));
+    const closestZ = Math.min(box.maxZ, Math.max(box.minZ, z));
+    const dx = x - closestX;
+    const dz = z - closestZ;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    if (distance > 0) {
+        return distance < radius ? [closestX + (dx / distance) * radius, closestZ + (dz / distance) * radius] : null;
+    }
+    // The centre is inside the box: leave through the nearest side
+    const exits: [number, [number, number]][] = [
+        [x - box.minX, [box.minX - radius, z]],
+        [box.maxX - x, [box.maxX + radius, z]],
+        [z - box.minZ, [x, box.minZ - radius]],
+        [box.maxZ - z, [x, box.maxZ + radius]],
+    ];
+    exits.sort((a, b) => a[0] - b[0]);
+    return exits[0][1];
+}
+
+/**
+ * Pushes a circle out of another circle. Returns null if they do not overlap.
+ */
+export function pushOutOfCircle(x: number, z: number, radius: number, centerX: number, centerZ: number, otherRadius: number): [number, number] | null {
+    const dx = x - centerX;
+    const dz = z - centerZ;
+    const minDistance = radius + otherRadius;
+    const distanceSq = dx * dx + dz * dz;
+    if (distanceSq >= minDistance * minDistance) {
+        return null;
+    }
+    const distance = Math.sqrt(distanceSq);
+    if (distance === 0) {
+        // Exactly on top of each other: pick a direction
+        return [centerX + minDistance, centerZ];
+    }
+    return [centerX + (dx / distance) * minDistance, centerZ + (dz / distance) * minDistance];
+}
+
+/**
+ * Checks whether a point is inside a polygon (even-odd rule).
+ */
+function isInsidePolygon(x: number, z: number, points: [number, number][]): boolean {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const [xi, zi] = points[i];
+        const [xj, zj] = points[j];
+        if ((zi > z) !== (zj > z) && x < ((xj - xi) * (z - zi)) / (zj - zi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * Pushes a circle out of a polygon. Returns null if they do not overlap.
+ */
+function pushOutOfPolygon(x: number, z: number, radius: number, points: [number, number][]): [number, number] | null {
+    // Closest point on the outline
+    let closestX = points[0][0];
+    let closestZ = points[0][1];
+    let closestDistanceSq = Infinity;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const [ax, az] = points[j];
+        const [bx, bz] = points[i];
+        const edgeX = bx - ax;
+        const edgeZ = bz - az;
+        const lengthSq = edgeX * edgeX + edgeZ * edgeZ;
+        const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - ax) * edgeX + (z - az) * edgeZ) / lengthSq)) : 0;
+        const px = ax + edgeX * t;
+        const pz = az + edgeZ * t;
+        const distanceSq = (x - px) * (x - px) + (z - pz) * (z - pz);
+        if (distanceSq < closestDistanceSq) {
+            closestDistanceSq = distanceSq;
+            closestX = px;
+            closestZ = pz;
+        }
+    }
+
+    const distance = Math.sqrt(closestDistanceSq);
+    if (isInsidePolygon(x, z, points)) {
+        if (distance === 0) {
+            return null; // Exactly on the outline; the next pass sees it as outside
+        }
+        // Leave through the nearest edge
+        return [closestX + ((closestX - x) / distance) * radius, closestZ + ((closestZ - z) / distance) * radius];
+    }
+    if (distance >= radius || distance === 0) {
+        return null;
+    }
+    return [closestX + ((x - closestX) / distance) * radius, closestZ + ((z - closestZ) / distance) * radius];
+}
+
+/**
+ * The static colliders of a world, with the queries movement needs.
+ */
+export class CollisionWorld {
+    private colliders: { collider: Collider; bounds: { minX: number; maxX: number; minZ: number; maxZ: number } }[];
+
+    /**
+     * Creates a new CollisionWorld.
+     * @param {Collider[]} colliders - The static geometry.
+     */
+    constructor(colliders: Collider[]) {
+        this.colliders = colliders.map(collider => ({ collider, bounds: getColliderBounds(collider) }));
+    }
+
+    /**
+     * Checks whether the world has any geometry.
+     * @returns {boolean} True if there are no colliders.
+     */
+    public isEmpty(): boolean {
+        return this.colliders.length === 0;
+    }
+
+    /**
+     * Pushes a circle out of every collider it overlaps.
+     * @param {number} x - The X coordinate of the circle's centre.
+     * @param {number} z - The Z coordinate of the circle's centre.
+     * @param {number} radius - The circle's radius.
+     * @returns {ResolvedPosition} The closest free position found.
+     */
+    public resolveCircle(x: number, z: number, radius: number): ResolvedPosition {
+        let collided = false;
+        for (let pass = 0; pass < RESOLVE_ITERATIONS; pass++) {
+            let pushed = false;
+            for (const { collider, bounds } of this.colliders) {
+                if (x + radius <= bounds.minX || x - radius >= bounds.maxX || z + radius <= bounds.minZ || z - radius >= bounds.maxZ) {
+                    continue;
+                }
+                let result: [number, number] | null;
+                switch (collider.shape) {
+                    case 'box':
+                        result = pushOutOfBox(x, z, radius, collider);
+                        break;
+                    case 'circle':
+                        result = pushOutOfCircle(x, z, radius, collider.x, collider.z, collider.radius);
+                        break;
+                    case 'polygon':
+                        result = pushOutOfPolygon(x, z, radius, collider.points);
+                        break;
+                }
+                if (result && (result[0] !== x || result[1] !== z)) {
+                    [x, z] = result;
+                    pushed = true;
+                }
+            }
+            if (!pushed) {
+                break;
+            }
+            collided = true;
+        }
+        return { x, z, collided };
+    }
+}
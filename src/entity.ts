@@ -0,0 +1,283 @@
+// Defines non-player entities (pickups, doors, projectiles, NPCs, ...) and the
+// components that give them behaviour each game update.
+import { Game } from './game';
+
+/**
+ * Value of a custom entity property. Kept to primitives so every wire format can carry it.
+ */
+export type EntityPropertyValue = string | number | boolean | null;
+
+/**
+ * Represents the replicated state of an entity.
+ * @property {string} id - Unique identifier for the entity.
+ * @property {string} type - Game-defined kind of entity, e.g. 'pickup' or 'door'.
+ * @property {number} x - The entity's X coordinate.
+ * @property {number} y - The entity's Y coordinate.
+ * @property {number} z - The entity's Z coordinate.
+ * @property {number} rot - The entity's rotation in degrees.
+ * @property {Record<string, EntityPropertyValue>} props - Custom properties.
+ */
+export interface EntityState {
+    id: string;
+    type: string;
+    x: number;
+    y: number;
+    z: number;
+    rot: number;
+    props: Record<string, EntityPropertyValue>;
+}
+
+/**
+ * Behaviour attached to an entity, ticked by `Game.update()`.
+ */
+export interface EntityComponent {
+    /**
+     * Advances the component by one game update.
+     * @param {Entity} entity - The entity the component is attached to.
+     * @param {number} elapsed - Milliseconds since the previous update.
+     * @param {Game} game - The game the entity lives in.
+     */
+    update(entity: Entity, elapsed: number, game: Game): void;
+    /** Called when the component is attached (optional). */
+    onAttach?(entity: Entity): void;
+    /** Called when the component is detached or its entity destroyed (optional). */
+    onDetach?(entity: Entity): void;
+}
+
+/**
+ * Options for spawning an entity. Position and rotation default to the origin and 0.
+ */
+export interface EntitySpawnOptions {
+    id?: string;
+    x?: number;
+    y?: number;
+    z?: number;
+    rot?: number;
+    props?: Record<string, EntityPropertyValue>;
+    components?: EntityComponent[];
+}
+
+/**
+ * A server-side object other than a player. Every change bumps `version`, which
+ * `Game` uses to find the entities to include in the next delta.
+ */
+export class Entity {
+    private _id: string;
+    private _type: string;
+    private _x: number;
+    private _y: number;
+    private _z: number;
+    private _rot: number;
+    private props: Map<string, EntityPropertyValue>;
+    private components: EntityComponent[] = [];
+    private _version = 0;
+
+    /**
+     * Creates a new Entity. Use `Game.createEntity` to add one to the world.
+     * @param {string} id - The unique ID for the entity.
+     * @param {string} type - The kind of entity.
+     * @param {EntitySpawnOptions} options - Initial position, rotation and properties.
+     */
+    constructor(id: string, type: string, options: EntitySpawnOptions = {}) {
+        this._id = id;
+        this._type = type;
+        this._x = options.x ?? 0;
+        this._y = options.y ?? 0;
+        this._z = options.z ?? 0;
+        this._rot = options.rot ?? 0;
+        this.props = new Map(Object.entries(options.props ?? {}));
+    }
+
+    /**
+     * Gets the entity's ID.
+     * @returns {string} The entity's ID.
+     */
+    public get id(): string {
+        return this._id;
+    }
+
+    /**
+     * Gets the entity's type.
+     * @returns {string} The entity's type.
+     */
+    public get type(): string {
+        return this._type;
+    }
+
+    /**
+     * Gets the change counter, bumped by every change to the replicated state.
+     * @returns {number} The version.
+     */
+    public get version(): number {
+        return this._version;
+    }
+
+    /**
+     * Gets the entity's current X coordinate.
+     * @returns {number} The entity's X coordinate.
+     */
+    public get x(): number {
+        return this._x;
+    }
+
+    /**
+     * Sets the entity's X coordinate.
+     * @param {number} value - The new value.
+     */
+    public set x(value: number) {
+        if (value !== this._x) {
+            this._x = value;
+            this._version++;
+        }
+    }
+
+    /**
+     * Gets the entity's current Y coordinate.
+     * @returns {number} The entity's Y coordinate.
+     */
+    public get y(): number {
+        return this._y;
+    }
+
+    /**
+     * Sets the entity's Y coordinate.
+     * @param {number} value - The new value.
+     */
+    public set y(value: number) {
+        if (value !== this._y) {
+            this._y = value;
+            this._version++;
+        }
+    }
+
+    /**
+     * Gets the entity's current Z coordinate.
+     * @returns {number} The entity's Z coordinate.
+     */
+    public get z(): number {
+        return this._z;
+    }
+
+    /**
+     * Sets the entity's Z coordinate.
+     * @param {number} value - The new value.
+     */
+    public set z(value: number) {
+        if (value !== this._z) {
+            this._z = value;
+            this._version++;
+        }
+    }
+
+    /**
+     * Gets the entity's current rotation in degrees.
+     * @returns {number} The entity's rotation in degrees.
+     */
+    public get rot(): number {
+        return this._rot;
+    }
+
+    /**
+     * Sets the entity's rotation in degrees.
+     * @param {number} value - The new value.
+     */
+    public set rot(value: number) {
+        if (value !== this._rot) {
+            this._rot = value;
+            this._version++;
+        }
+    }
+
+    /**
+     * Gets a custom property.
+     * @param {string} key - The property name.
+     * @returns {EntityPropertyValue | undefined} The value, or undefined if it is not set.
+     */
+    public getProperty(key: string): EntityPropertyValue | undefined {
+        return this.props.get(key);
+    }
+
+    /**
+     * Sets a custom property.
+     * @param {string} key - The property name.
+     * @param {EntityPropertyValue} value - The new value.
+     */
+    public setProperty(key: string, value: EntityPropertyValue): void {
+        if (this.props.get(key) !== value || !this.props.has(key)) {
+            this.props.set(key, value);
+            this._version++;
+        }
+    }
+
+    /**
+     * Removes a custom property.
+     * @param {string} key - The property name.
+     * @returns {boolean} True if the property was set.
+     */
+    public deleteProperty(key: string): boolean {
+        if (!this.props.delete(key)) {
+            return false;
+        }
+        this._version++;
+        return true;
+    }
+
+    /**
+     * Attaches a component.
+     * @param {EntityComponent} component - The component.
+     */
+    public addComponent(component: EntityComponent): void {
+        this.components.push(component);
+        component.onAttach?.(this);
+    }
+
+    /**
+     * Detaches a component.
+     * @param {EntityComponent} component - The component.
+     * @returns {boolean} True if the component was attached.
+     */
+    public removeComponent(component: EntityComponent): boolean {
+        const index = this.components.indexOf(component);
+        if (index === -1) {
+            return false;
+        }
+        this.components.splice(index, 1);
+        component.onDetach?.(this);
+        return true;
+    }
+
+    /**
+     * Ticks every attached component once. Called by `Game.update()`.
+     * @param {number} elapsed - Milliseconds since the previous update.
+     * @param {Game} game - The game the entity lives in.
+     */
+    public update(elapsed: number, game: Game): void {
+        // Copy so components may detach themselves while being ticked
+        [...this.components].forEach(component => component.update(this, elapsed, game));
+    }
+
+    /**
+     * Detaches every component. Called by `Game.destroyEntity()`.
+     */
+    public detachAll(): void {
+        const components = this.components;
+        this.components = [];
+        components.forEach(component => component.onDetach?.(this));
+    }
+
+    /**
+     * Returns the current state of the entity.
+     * @returns {EntityState} An object containing the entity's replicated state.
+     */
+    public getState(): EntityState {
+        return {
+            id: this._id,
+            type: this._type,
+            x: this._x,
+            y: this._y,
+            z: this._z,
+            rot: this._rot,
+            props: Object.fromEntries(this.props),
+        };
+    }
+}
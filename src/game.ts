@@ -1,5 +1,124 @@
 // Manages the overall game state, including all connected players and their positions.
-import { Player, PlayerState } from './player';
+import { v4 as uuidv4 } from 'uuid'; // For generating unique entity IDs
+import { Player, PlayerState, Quaternion, AttributeSchema, AttributeValue, TEAM_ATTRIBUTE } from './player';
+import { SpatialGrid } from './spatial';
+import { getTimecode, timecodeDistance, MoveMessage } from './protocol';
+import { PositionHistory } from './lag';
+import { Entity, EntityState, EntitySpawnOptions } from './entity';
+import { Collider, CollisionWorld, pushOutOfCircle } from './collision';
+
+// Default radius around a player within which other players are replicated to it
+export const DEFAULT_INTEREST_RADIUS = 50;
+
+/**
+ * How players are oriented: by yaw alone (`rot`), by yaw and pitch, or by a full quaternion.
+ */
+export type RotationMode = 'yaw' | 'pitch_yaw' | 'quaternion';
+
+export const ROTATION_MODES: RotationMode[] = ['yaw', 'pitch_yaw', 'quaternion'];
+
+/**
+ * Rules the server enforces on client-submitted movement, and which parts of a
+ * player's transform the world uses. With the defaults players live on the X/Z
+ * plane and turn about Y only, and player states carry nothing more.
+ * Collision stays on the X/Z plane in every world.
+ * @property {number} maxSpeed - Maximum distance a player may cover on the X/Z plane per second.
+ * @property {number} clockTolerance - Milliseconds a client's timecodes may run ahead of the server's clock before the excess is ignored.
+ * @property {number} maxMoveInterval - Longest gap between moves, in milliseconds, that is credited as movement time (so idle or resumed players cannot bank distance).
+ * @property {object} bounds - The playable area; positions outside it are clamped. Y is only limited in vertical worlds, and only if `minY`/`maxY` are set.
+ * @property {number} playerRadius - Default collision radius of a player on the X/Z plane (0 lets players overlap each other).
+ * @property {Collider[]} colliders - Static level geometry that players cannot move through.
+ * @property {boolean} vertical - Whether moves may change Y, e.g. for ramps, stairs and jumping; otherwise a move's `y` is ignored.
+ * @property {number} maxVerticalSpeed - Maximum distance a player may cover along Y per second (vertical worlds only).
+ * @property {boolean} velocity - Whether player states carry a velocity, worked out from the moves the server accepted.
+ * @property {RotationMode} rotation - How players are oriented; pitch and quaternions are sent alongside `rot`.
+ */
+export interface MovementConfig {
+    maxSpeed: number;
+    clockTolerance: number;
+    maxMoveInterval: number;
+    bounds: { minX: number; maxX: number; minZ: number; maxZ: number; minY?: number; maxY?: number };
+    playerRadius: number;
+    colliders: Collider[];
+    vertical: boolean;
+    maxVerticalSpeed: number;
+    velocity: boolean;
+    rotation: RotationMode;
+}
+
+export const DEFAULT_MOVEMENT_CONFIG: MovementConfig = {
+    maxSpeed: 10,
+    clockTolerance: 250,
+    maxMoveInterval: 1000,
+    bounds: { minX: -500, maxX: 500, minZ: -500, maxZ: 500 },
+    playerRadius: 0.5,
+    colliders: [],
+    vertical: false,
+    maxVerticalSpeed: 20,
+    velocity: false,
+    rotation: 'yaw',
+};
+
+/**
+ * The parts of a move beyond X, Z and yaw, used by worlds that enable them.
+ */
+export type MoveTransform = Pick<MoveMessage, 'y' | 'pitch' | 'qx' | 'qy' | 'qz' | 'qw'>;
+
+const SPAWN_Y = 1; // Height players spawn at (ground level)
+const VELOCITY_TIMEOUT = 250; // A player with no accepted move for this long is at rest (ms)
+const MIN_QUATERNION_LENGTH = 1e-3; // Shorter quaternions cannot be normalized reliably and are rejected
+
+const MIN_SWEEP_STEP = 0.25; // Shortest sub-step when sweeping a move through the level geometry
+
+/**
+ * Builds the quaternion of a turn about the Y axis.
+ */
+function yawToQuaternion(degrees: number): Quaternion {
+    const half = degrees * Math.PI / 360;
+    return { x: 0, y: Math.sin(half), z: 0, w: Math.cos(half) };
+}
+
+/**
+ * Extracts the yaw (rotation about Y, in degrees) of a unit quaternion.
+ */
+function quaternionToYaw(q: Quaternion): number {
+    return Math.atan2(2 * (q.w * q.y + q.x * q.z), 1 - 2 * (q.x * q.x + q.y * q.y)) * 180 / Math.PI;
+}
+
+/**
+ * Checks whether two player states differ in any field.
+ */
+function statesDiffer(a: PlayerState, b: PlayerState): boolean {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof PlayerState>;
+    for (const key of keys) {
+        if (a[key] !== b[key]) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Outcome of applying a client move.
+ * @property {PlayerState} state - The player's authoritative state after the move.
+ * @property {boolean} corrected - True if the requested move was clamped or rejected, so the client must be told where it really is.
+ */
+export interface MoveResult {
+    state: PlayerState;
+    corrected: boolean;
+}
+
+/**
+ * Per-player timing used to derive how much time a move covers.
+ * @property {number | null} clientT - Timecode of the last accepted move, or null before the first one.
+ * @property {number} serverT - Server timecode when the last move was accepted (or the player joined).
+ * @property {number} drift - How far the client's clock has run ahead (+) or behind (-) the server's since joining, bounded by the tolerance.
+ */
+interface MoveClock {
+    clientT: number | null;
+    serverT: number;
+    drift: number;
+}
 
 /**
  * Manages the core game logic, including player states and updates.
@@ -7,17 +126,48 @@ import { Player, PlayerState } from './player';
  */
 export class Game {
     private players: Map<string, Player>; // Maps player ID to Player instance
-    private playerNames: Set<string>; // Track taken names for uniqueness
-    private lastKnownPositions: Map<string, { x: number; z: number; rot: number }>; // Track last sent X, Z positions and rotation
-    private updateInterval: NodeJS.Timeout | null = null;
-    private readonly POLLING_RATE = 500; // 2 times per second (500ms)
+    private playerNames: Set<string>; // Track taken names for uniqueness (may be shared with other games)
+    private nameReservations: Map<string, string>; // Maps reserved names to the user ID allowed to take them (may be shared with other games)
+    private lastKnownPositions: Map<string, PlayerState>; // Track the last sent state of each player
+    private spatialIndex: SpatialGrid; // Indexes player X/Z positions for area-of-interest queries
+    private moveClocks: Map<string, MoveClock>; // Tracks move timing per player for speed checks
+    private histories: Map<string, PositionHistory>; // Recent timestamped states per player, for rewinding
+    private entities: Map<string, Entity>; // Maps entity ID to Entity instance
+    private entityIndex: SpatialGrid; // Indexes entity X/Z positions for area-of-interest queries
+    private sentEntityVersions: Map<string, number>; // Entity version last reported by getUpdatedEntityStates
+    private collisionWorld: CollisionWorld; // Static level geometry
+    private collisionRadii: Map<string, number>; // Per-player collision radii that differ from the default
+    private largestRadius: number; // Largest collision radius in use, bounding neighbour queries
+    public readonly movement: MovementConfig;
+    public readonly interestRadius: number;
+    private readonly attributeSchema: AttributeSchema; // Custom attributes every player has
 
-    constructor() {
+    /**
+     * Creates a new Game.
+     * @param {number} interestRadius - Radius on the X/Z plane within which players see each other.
+     * @param {Set<string>} sharedPlayerNames - A name registry shared with other games for server-wide uniqueness (optional, a private one is used if not provided).
+     * @param {MovementConfig} movement - Speed, clock and bounds rules for client moves.
+     * @param {Map<string, string>} nameReservations - Names reserved for authenticated users, keyed by name (optional, none if not provided).
+     * @param {AttributeSchema} attributeSchema - Custom attributes every player has (optional, none if not provided).
+     */
+    constructor(interestRadius: number = DEFAULT_INTEREST_RADIUS, sharedPlayerNames?: Set<string>, movement: MovementConfig = DEFAULT_MOVEMENT_CONFIG, nameReservations?: Map<string, string>, attributeSchema: AttributeSchema = {}) {
+        this.interestRadius = interestRadius;
+        this.movement = movement;
+        this.attributeSchema = attributeSchema;
+        this.moveClocks = new Map<string, MoveClock>();
+        this.histories = new Map<string, PositionHistory>();
+        this.entities = new Map<string, Entity>();
+        this.entityIndex = new SpatialGrid(interestRadius);
+        this.sentEntityVersions = new Map<string, number>();
+        this.collisionWorld = new CollisionWorld(movement.colliders);
+        this.collisionRadii = new Map<string, number>();
+        this.largestRadius = movement.playerRadius;
+        this.spatialIndex = new SpatialGrid(interestRadius);
         this.players = new Map<string, Player>();
-        this.playerNames = new Set<string>();
-        this.lastKnownPositions = new Map<string, { x: number; z: number; rot: number }>();
+        this.playerNames = sharedPlayerNames ?? new Set<string>();
+        this.nameReservations = nameReservations ?? new Map<string, string>();
+        this.lastKnownPositions = new Map<string, PlayerState>();
         console.log('Game initialized.');
-        this.startUpdateLoop();
     }
 
     /**
@@ -28,48 +178,50 @@ export class Game {
     }
 
     /**
-     * Starts the game update loop at 2 times per second
+     * Gets the number of players in the game, suspended ones included.
+     * @returns {number} The player count.
      */
-    private startUpdateLoop(): void {
-        this.updateInterval = setInterval(() => {
-            this.update();
-        }, this.POLLING_RATE);
+    public get playerCount(): number {
+        return this.players.size;
     }
 
     /**
-     * Stops the game update loop
+     * Checks if a name is available (not taken by another player nor reserved for another user).
+     * @param {string} name - The name to check.
+     * @param {string | null} ownerId - The user ID of the authenticated player asking, or null if anonymous.
+     * @returns {boolean} True if the name is available, false if taken or reserved.
      */
-    public stopUpdateLoop(): void {
-        if (this.updateInterval) {
-            clearInterval(this.updateInterval);
-            this.updateInterval = null;
-        }
+    public isNameAvailable(name: string, ownerId: string | null = null): boolean {
+        return !this.playerNames.has(name) && !this.isNameReserved(name, ownerId);
     }
 
     /**
-     * Checks if a name is available (not taken by another player).
+     * Checks if a name is reserved for a user other than the given one.
      * @param {string} name - The name to check.
-     * @returns {boolean} True if the name is available, false if taken.
+     * @param {string | null} ownerId - The user ID of the authenticated player asking, or null if anonymous.
+     * @returns {boolean} True if another user holds the reservation.
      */
-    public isNameAvailable(name: string): boolean {
-        return !this.playerNames.has(name);
+    public isNameReserved(name: string, ownerId: string | null = null): boolean {
+        const reservedFor = this.nameReservations.get(name);
+        return reservedFor !== undefined && reservedFor !== ownerId;
     }
 
     /**
      * Sets a player's name if it's available.
      * @param {string} playerId - The ID of the player.
      * @param {string} name - The desired name.
-     * @returns {boolean} True if the name was set successfully, false if taken or player doesn't exist.
+     * @param {string | null} ownerId - The user ID of the player's verified identity, which may take names reserved for it (optional).
+     * @returns {boolean} True if the name was set successfully, false if taken, reserved or player doesn't exist.
      */
-    public setPlayerName(playerId: string, name: string): boolean {
+    public setPlayerName(playerId: string, name: string, ownerId: string | null = null): boolean {
         const player = this.players.get(playerId);
         if (!player) {
             console.warn(`Attempted to set name for non-existent player ${playerId}.`);
             return false;
         }
 
-        // Check if name is already taken
-        if (this.playerNames.has(name)) {
+        // Check if name is already taken or reserved for someone else
+        if (!this.isNameAvailable(name, ownerId)) {
             return false;
         }
 
@@ -91,22 +243,37 @@ export class Game {
      * @param {number} initialX - The starting X position for the new player (optional, will use random if not provided).
      * @param {number} initialZ - The starting Z position for the new player (optional, will use random if not provided).
      * @param {number} initialRot - The starting rotation for the new player (optional, will use 0 if not provided).
+     * @param {Record<string, number>} initialStats - Stats restored from the player's saved profile (optional).
      * @returns {PlayerState} The state of the newly added player.
      */
-    public addPlayer(playerId: string, initialX?: number, initialZ?: number, initialRot?: number): PlayerState {
+    public addPlayer(playerId: string, initialX?: number, initialZ?: number, initialRot?: number, initialStats?: Record<string, number>): PlayerState {
         if (this.players.has(playerId)) {
             console.warn(`Player with ID ${playerId} already exists.`);
             return this.players.get(playerId)!.getState();
         }
         
-        const x = initialX ?? this.generateRandomCoordinate();
-        const z = initialZ ?? this.generateRandomCoordinate();
+        // Spawn clear of the level geometry and other players
+        const { x, z } = this.resolvePlayerPosition(playerId, initialX ?? this.generateRandomCoordinate(), initialZ ?? this.generateRandomCoordinate());
         const rot = initialRot ?? 0;
+        const y = this.movement.vertical ? this.clampY(SPAWN_Y) : SPAWN_Y;
         
-        const player = new Player(playerId, x, 1, z, rot); // Y remains 1 (ground level)
+        const player = new Player(playerId, x, y, z, rot, initialStats, this.attributeSchema);
+        if (this.movement.velocity) {
+            player.velocity = { x: 0, y: 0, z: 0 };
+        }
+        if (this.movement.rotation === 'pitch_yaw') {
+            player.pitch = 0;
+        } else if (this.movement.rotation === 'quaternion') {
+            player.orientation = yawToQuaternion(rot);
+        }
+        // Deliberately not seeded into lastKnownPositions so the new player
+        // is included in the next delta sent to existing clients.
         this.players.set(playerId, player);
-        this.lastKnownPositions.set(playerId, { x, z, rot });
-        console.log(`Player ${playerId} added at (${x}, 1, ${z}) with rotation ${rot}.`);
+        this.spatialIndex.upsert(playerId, x, z);
+        this.moveClocks.set(playerId, { clientT: null, serverT: getTimecode(), drift: 0 });
+        this.histories.set(playerId, new PositionHistory());
+        this.recordHistory(player);
+        console.log(`Player ${playerId} added at (${x}, ${y}, ${z}) with rotation ${rot}.`);
         return player.getState();
     }
 
@@ -124,6 +291,10 @@ export class Game {
             }
             this.players.delete(playerId);
             this.lastKnownPositions.delete(playerId);
+            this.spatialIndex.remove(playerId);
+            this.moveClocks.delete(playerId);
+            this.histories.delete(playerId);
+            this.collisionRadii.delete(playerId);
             console.log(`Player ${playerId} removed.`);
             return true;
         }
@@ -132,7 +303,7 @@ export class Game {
     }
 
     /**
-     * Updates a player's X, Z position and rotation. Y position remains fixed at 1.
+     * Updates a player's X, Z position and rotation. Y is left as it is.
      * @param {string} playerId - The ID of the player to update.
      * @param {number} newX - The new X coordinate for the player.
      * @param {number} newZ - The new Z coordinate for the player.
@@ -145,8 +316,9 @@ export class Game {
             player.x = newX;
             player.z = newZ;
             player.rot = newRot ?? player.rot;
-            // Y remains fixed at 1
-            // console.log(`Player ${playerId} moved to (${newX}, 1, ${newZ}) with rotation ${player.rot}.`);
+            this.spatialIndex.upsert(playerId, newX, newZ);
+            this.recordHistory(player);
+            // console.log(`Player ${playerId} moved to (${newX}, ${player.y}, ${newZ}) with rotation ${player.rot}.`);
             return player.getState();
         }
         console.warn(`Attempted to move non-existent player ${playerId}.`);
@@ -154,21 +326,266 @@ export class Game {
     }
 
     /**
-     * Updates a player's position and rotation.
+     * Applies a move requested by a client, enforcing the movement rules.
+     * Non-finite values reject the move outright; moves faster than `maxSpeed`
+     * are shortened along their direction, the move is swept through the level
+     * geometry and resolved against other players, and positions outside the world
+     * bounds are clamped. Elapsed time comes from the message timecodes, but
+     * the client's clock may only run `clockTolerance` ms ahead of the server's.
+     * In vertical worlds Y is limited to `maxVerticalSpeed` and the Y bounds the
+     * same way; a quaternion is normalized and sets `rot` to its yaw, and one that
+     * is incomplete or too short to normalize leaves the orientation unchanged.
+     * @param {string} playerId - The ID of the player to move.
+     * @param {number} newX - The requested X coordinate.
+     * @param {number} newZ - The requested Z coordinate.
+     * @param {number} newRot - The requested rotation.
+     * @param {number} timecode - The move message's wraparound timecode.
+     * @param {MoveTransform} transform - Requested Y, pitch and orientation, used as far as the world allows (optional).
+     * @returns {MoveResult | null} The authoritative result, or null if the player does not exist.
+     */
+    public applyClientMove(playerId: string, newX: number, newZ: number, newRot: number, timecode: number, transform: MoveTransform = {}): MoveResult | null {
+        const player = this.players.get(playerId);
+        const clock = this.moveClocks.get(playerId);
+        if (!player || !clock) {
+            console.warn(`Attempted to move non-existent player ${playerId}.`);
+            return null;
+        }
+
+        const extras = [transform.y, transform.pitch, transform.qx, transform.qy, transform.qz, transform.qw];
+        if (!Number.isFinite(newX) || !Number.isFinite(newZ) || !Number.isFinite(newRot) || !Number.isFinite(timecode)
+            || extras.some(value => value !== undefined && !Number.isFinite(value))) {
+            console.warn(`Rejected non-finite move from player ${playerId}.`);
+            return { state: player.getState(), corrected: true };
+        }
+
+        // Work out how much time this move covers
+        const now = getTimecode();
+        const serverElapsed = Math.max(0, timecodeDistance(now, clock.serverT));
+        let elapsed = serverElapsed;
+        if (clock.clientT === null) {
+            // First move: no client timecode to compare against yet, so use time since joining
+            clock.clientT = timecode;
+        } else {
+            const clientElapsed = timecodeDistance(timecode, clock.clientT);
+            if (clientElapsed < 0) {
+                // Out of order or replayed timecode: the move covers no time
+                elapsed = 0;
+            } else {
+                const tolerance = this.movement.clockTolerance;
+                const drift = clock.drift + clientElapsed - serverElapsed;
+                // Time claimed beyond the tolerated drift is not credited
+                elapsed = clientElapsed - Math.max(0, drift - tolerance);
+                clock.drift = Math.min(tolerance, Math.max(-tolerance, drift));
+                clock.clientT = timecode;
+            }
+        }
+        clock.serverT = now;
+        elapsed = Math.min(elapsed, this.movement.maxMoveInterval);
+
+        let corrected = false;
+        let x = newX;
+        let z = newZ;
+
+        // Enforce max speed by shortening the move along its direction
+        const dx = x - player.x;
+        const dz = z - player.z;
+        const distance = Math.sqrt(dx * dx + dz * dz);
+        const maxDistance = this.movement.maxSpeed * elapsed / 1000;
+        if (distance > maxDistance) {
+            const scale = distance > 0 ? maxDistance / distance : 0;
+            x = player.x + dx * scale;
+            z = player.z + dz * scale;
+            corrected = true;
+        }
+
+        // Stop at walls (sliding along them) and at other players
+        const swept = this.sweepPlayer(playerId, player.x, player.z, x, z);
+        if (Math.abs(swept.x - x) > 1e-6 || Math.abs(swept.z - z) > 1e-6) {
+            corrected = true;
+        }
+        x = swept.x;
+        z = swept.z;
+
+        // Keep the player inside the world bounds
+        const { minX, maxX, minZ, maxZ } = this.movement.bounds;
+        const clampedX = Math.min(maxX, Math.max(minX, x));
+        const clampedZ = Math.min(maxZ, Math.max(minZ, z));
+        if (clampedX !== x || clampedZ !== z) {
+            x = clampedX;
+            z = clampedZ;
+            corrected = true;
+        }
+
+        let y = player.y;
+        if (this.movement.vertical && transform.y !== undefined) {
+            // Vertical speed is limited separately so jumps and falls can outpace walking
+            const maxRise = this.movement.maxVerticalSpeed * elapsed / 1000;
+            y = Math.min(player.y + maxRise, Math.max(player.y - maxRise, transform.y));
+            const clampedY = this.clampY(y);
+            if (y !== transform.y || clampedY !== y) {
+                corrected = true;
+            }
+            y = clampedY;
+        }
+
+        let rot = newRot;
+        if (this.movement.rotation === 'pitch_yaw' && transform.pitch !== undefined) {
+            player.pitch = Math.max(-90, Math.min(90, transform.pitch));
+        } else if (this.movement.rotation === 'quaternion') {
+            const orientation = this.resolveOrientation(transform, newRot);
+            if (orientation) {
+                player.orientation = orientation;
+                rot = quaternionToYaw(orientation);
+            } else {
+                rot = player.rot;
+                corrected = true;
+            }
+        }
+
+        if (player.velocity && elapsed > 0) {
+            player.velocity = { x: (x - player.x) * 1000 / elapsed, y: (y - player.y) * 1000 / elapsed, z: (z - player.z) * 1000 / elapsed };
+        }
+        player.y = y;
+        const state = this.updatePlayerPosition(playerId, x, z, rot)!;
+        return { state, corrected };
+    }
+
+    /**
+     * Works out the orientation a move asks for in a quaternion world: its
+     * quaternion normalized, or a turn about Y to `rot` if it sent none.
+     * @returns {Quaternion | null} The orientation, or null if the quaternion is incomplete or too short.
+     */
+    private resolveOrientation(transform: MoveTransform, rot: number): Quaternion | null {
+        const { qx, qy, qz, qw } = transform;
+        if (qx === undefined && qy === undefined && qz === undefined && qw === undefined) {
+            return yawToQuaternion(rot);
+        }
+        if (qx === undefined || qy === undefined || qz === undefined || qw === undefined) {
+            return null;
+        }
+        const length = Math.sqrt(qx * qx + qy * qy + qz * qz + qw * qw);
+        if (length < MIN_QUATERNION_LENGTH) {
+            return null;
+        }
+        return { x: qx / length, y: qy / length, z: qz / length, w: qw / length };
+    }
+
+    /**
+     * Clamps a Y coordinate to the world's Y bounds, if it has any.
+     */
+    private clampY(y: number): number {
+        const { minY, maxY } = this.movement.bounds;
+        return Math.min(maxY ?? Infinity, Math.max(minY ?? -Infinity, y));
+    }
+
+    /**
+     * Gets a player's collision radius.
+     * @param {string} playerId - The ID of the player.
+     * @returns {number} The player's radius, or the default radius if it has none of its own.
+     */
+    public getPlayerRadius(playerId: string): number {
+        return this.collisionRadii.get(playerId) ?? this.movement.playerRadius;
+    }
+
+    /**
+     * Sets a player's collision radius, e.g. for larger characters or vehicles.
+     * @param {string} playerId - The ID of the player.
+     * @param {number} radius - The new radius (0 or more).
+     * @returns {boolean} True if the radius was set, false if the player does not exist or the radius is invalid.
+     */
+    public setPlayerRadius(playerId: string, radius: number): boolean {
+        if (!this.players.has(playerId) || !Number.isFinite(radius) || radius < 0) {
+            return false;
+        }
+        this.collisionRadii.set(playerId, radius);
+        this.largestRadius = Math.max(this.largestRadius, radius);
+        return true;
+    }
+
+    /**
+     * Resolves a player's circle at a position against the level geometry, then
+     * pushes it out of the other players. The push is swept through the geometry
+     * so a player cannot be shoved through a wall; walls win over players.
+     * @returns {{ x: number; z: number }} The closest free position found.
+     */
+    private resolvePlayerPosition(playerId: string, x: number, z: number): { x: number; z: number } {
+        const radius = this.getPlayerRadius(playerId);
+        ({ x, z } = this.collisionWorld.resolveCircle(x, z, radius));
+        let pushedX = x;
+        let pushedZ = z;
+        for (const otherId of this.spatialIndex.queryRadius(x, z, radius + this.largestRadius)) {
+            const other = this.players.get(otherId);
+            if (otherId === playerId || !other) {
+                continue;
+            }
+            const result = pushOutOfCircle(pushedX, pushedZ, radius, other.x, other.z, this.getPlayerRadius(otherId));
+            if (result) {
+                [pushedX, pushedZ] = result;
+            }
+        }
+        if (pushedX === x && pushedZ === z) {
+            return { x, z };
+        }
+        return this.sweepThroughLevel(radius, x, z, pushedX, pushedZ);
+    }
+
+    /**
+     * Moves a player's circle from its current position towards a requested one,
+     * stopping at walls and other players.
+     * @returns {{ x: number; z: number }} Where the player ends up.
+     */
+    private sweepPlayer(playerId: string, fromX: number, fromZ: number, toX: number, toZ: number): { x: number; z: number } {
+        const swept = this.sweepThroughLevel(this.getPlayerRadius(playerId), fromX, fromZ, toX, toZ);
+        return this.resolvePlayerPosition(playerId, swept.x, swept.z);
+    }
+
+    /**
+     * Moves a circle through the level geometry in steps no longer than its
+     * radius, so fast moves cannot tunnel through thin walls.
+     * @returns {{ x: number; z: number }} Where the circle ends up.
+     */
+    private sweepThroughLevel(radius: number, fromX: number, fromZ: number, toX: number, toZ: number): { x: number; z: number } {
+        if (this.collisionWorld.isEmpty()) {
+            return { x: toX, z: toZ };
+        }
+        const distance = Math.sqrt((toX - fromX) ** 2 + (toZ - fromZ) ** 2);
+        const steps = Math.max(1, Math.ceil(distance / Math.max(radius, MIN_SWEEP_STEP)));
+        const stepX = (toX - fromX) / steps;
+        const stepZ = (toZ - fromZ) / steps;
+        let x = fromX;
+        let z = fromZ;
+        for (let step = 0; step < steps; step++) {
+            // Pushing out of a wall cancels only the part of the step into it, so the circle slides along
+            ({ x, z } = this.collisionWorld.resolveCircle(x + stepX, z + stepZ, radius));
+        }
+        return { x, z };
+    }
+
+    /**
+     * Updates a player's position and rotation. In a quaternion world the
+     * orientation becomes a turn about Y to the new rotation.
      * @param {string} playerId - The ID of the player to update.
      * @param {number} newX - The new X coordinate for the player.
      * @param {number} newZ - The new Z coordinate for the player.
      * @param {number} newRot - The new rotation for the player.
+     * @param {number} newY - The new Y coordinate for the player (optional, unchanged if not provided; ignored unless the world is vertical).
      * @returns {PlayerState | null} The updated player state, or null if the player does not exist.
      */
-    public updatePlayerPositionAndRotation(playerId: string, newX: number, newZ: number, newRot: number): PlayerState | null {
+    public updatePlayerPositionAndRotation(playerId: string, newX: number, newZ: number, newRot: number, newY?: number): PlayerState | null {
         const player = this.players.get(playerId);
         if (player) {
             player.x = newX;
             player.z = newZ;
             player.rot = newRot;
-            // Y remains fixed at 1
-            // console.log(`Player ${playerId} moved to (${newX}, 1, ${newZ}) with rotation ${newRot}.`);
+            if (this.movement.vertical && newY !== undefined) {
+                player.y = newY;
+            }
+            if (player.orientation) {
+                player.orientation = yawToQuaternion(newRot);
+            }
+            this.spatialIndex.upsert(playerId, newX, newZ);
+            this.recordHistory(player);
+            // console.log(`Player ${playerId} moved to (${newX}, ${player.y}, ${newZ}) with rotation ${newRot}.`);
             return player.getState();
         }
         console.warn(`Attempted to move non-existent player ${playerId}.`);
@@ -184,6 +601,100 @@ export class Game {
         return this.players.get(playerId)?.getState() || null;
     }
 
+    /**
+     * Finds the player currently using a display name.
+     * @param {string} name - The display name.
+     * @returns {string | null} The ID of the player, or null if nobody in this game has the name.
+     */
+    public getPlayerIdByName(name: string): string | null {
+        for (const player of this.players.values()) {
+            if (player.name === name) {
+                return player.id;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Gets a player's stats.
+     * @param {string} playerId - The ID of the player.
+     * @returns {Record<string, number> | null} The stats by name, or null if the player does not exist.
+     */
+    public getPlayerStats(playerId: string): Record<string, number> | null {
+        return this.players.get(playerId)?.getStats() ?? null;
+    }
+
+    /**
+     * Sets one of a player's stats. Stats are saved with the player's profile but not sent to clients.
+     * @param {string} playerId - The ID of the player.
+     * @param {string} key - The stat name.
+     * @param {number} value - The new value.
+     * @returns {boolean} True if the player exists.
+     */
+    public setPlayerStat(playerId: string, key: string, value: number): boolean {
+        const player = this.players.get(playerId);
+        if (!player) {
+            return false;
+        }
+        player.setStat(key, value);
+        return true;
+    }
+
+    /**
+     * Gets one of a player's custom attributes.
+     * @param {string} playerId - The ID of the player.
+     * @param {string} key - The attribute name.
+     * @returns {AttributeValue | undefined} The value, or undefined if the player does not exist or has no such attribute.
+     */
+    public getPlayerAttribute(playerId: string, key: string): AttributeValue | undefined {
+        return this.players.get(playerId)?.getAttribute(key);
+    }
+
+    /**
+     * Sets one of a player's custom attributes. Changes are sent with the next
+     * state update to the clients the attribute's visibility allows.
+     * @param {string} playerId - The ID of the player.
+     * @param {string} key - The attribute name.
+     * @param {AttributeValue} value - The new value, of the declared type or null.
+     * @returns {boolean} True if the player exists and the value was accepted.
+     */
+    public setPlayerAttribute(playerId: string, key: string, value: AttributeValue): boolean {
+        const player = this.players.get(playerId);
+        if (!player) {
+            console.warn(`Attempted to set attribute "${key}" of non-existent player ${playerId}.`);
+            return false;
+        }
+        return player.setAttribute(key, value);
+    }
+
+    /**
+     * Gets the custom attributes of a player that another player may see.
+     * @param {string} playerId - The ID of the player whose attributes to get.
+     * @param {string | null} viewerId - The ID of the player they are for, or null for a spectator, who only sees 'everyone' attributes.
+     * @param {Iterable<string>} keys - The attribute names to consider (optional, all if not provided).
+     * @returns {Record<string, AttributeValue> | null} The visible attributes by name, or null if there are none.
+     */
+    public getVisibleAttributes(playerId: string, viewerId: string | null, keys?: Iterable<string>): Record<string, AttributeValue> | null {
+        const player = this.players.get(playerId);
+        if (!player) {
+            return null;
+        }
+        const team = player.getAttribute(TEAM_ATTRIBUTE) ?? null;
+        const viewerTeam = viewerId !== null ? this.players.get(viewerId)?.getAttribute(TEAM_ATTRIBUTE) ?? null : null;
+        let visible: Record<string, AttributeValue> | null = null;
+        for (const key of keys ?? Object.keys(this.attributeSchema)) {
+            const visibility = player.getAttributeVisibility(key);
+            const allowed = visibility === 'everyone'
+                || (visibility !== null && viewerId === playerId)
+                || (visibility === 'team' && team !== null && team === viewerTeam);
+            if (allowed) {
+                visible = visible ?? {};
+                visible[key] = player.getAttribute(key)!;
+            }
+        }
+        return visible;
+    }
+
     /**
      * Retrieves the states of all players currently in the game.
      * @returns {PlayerState[]} An array of all player states.
@@ -193,24 +704,81 @@ export class Game {
     }
 
     /**
-     * Gets only the players whose positions or rotation have changed since last update.
-     * @returns {PlayerState[]} An array of player states that have moved or rotated.
+     * Gets the state a player had at an earlier time, for lag-compensated hit and interaction checks.
+     * @param {string} playerId - The ID of the player.
+     * @param {number} timecode - Server timecode to rewind to.
+     * @returns {PlayerState | null} The player's state at that time, or null if it does not exist or had not joined yet.
+     */
+    public getPlayerStateAt(playerId: string, timecode: number): PlayerState | null {
+        return this.histories.get(playerId)?.sample(timecode) ?? null;
+    }
+
+    /**
+     * Rewinds the world to an earlier time: the state every current player had
+     * then. Players that joined later are left out. The history reaches back
+     * `DEFAULT_HISTORY_SIZE` position changes per player; older timecodes get the oldest state kept.
+     * @param {number} timecode - Server timecode to rewind to (see `LatencyEstimator.toServerTimecode`).
+     * @returns {Map<string, PlayerState>} The players' states at that time, by ID.
+     */
+    public rewind(timecode: number): Map<string, PlayerState> {
+        const states = new Map<string, PlayerState>();
+        this.histories.forEach((history, playerId) => {
+            const state = history.sample(timecode);
+            if (state) {
+                states.set(playerId, state);
+            }
+        });
+        return states;
+    }
+
+    /**
+     * Records a player's current state in its history, stamped with the current timecode.
+     */
+    private recordHistory(player: Player): void {
+        this.histories.get(player.id)?.record(getTimecode(), player.getState());
+    }
+
+    /**
+     * Finds the IDs of all players within a radius of a point on the X/Z plane.
+     * @param {number} x - The X coordinate of the centre.
+     * @param {number} z - The Z coordinate of the centre.
+     * @param {number} radius - The search radius.
+     * @returns {string[]} The IDs of the players inside the radius.
+     */
+    public getPlayerIdsInRadius(x: number, z: number, radius: number): string[] {
+        return this.spatialIndex.queryRadius(x, z, radius);
+    }
+
+    /**
+     * Gets the IDs of the players a given player should receive updates about,
+     * i.e. everyone within the interest radius, including the player itself.
+     * @param {string} playerId - The ID of the observing player.
+     * @returns {Set<string>} The IDs of the players in its area of interest (empty if the player does not exist).
+     */
+    public getInterestSet(playerId: string): Set<string> {
+        const player = this.players.get(playerId);
+        if (!player) {
+            return new Set<string>();
+        }
+        return new Set(this.spatialIndex.queryRadius(player.x, player.z, this.interestRadius));
+    }
+
+    /**
+     * Gets only the players whose state (name, position, rotation and, where the world
+     * uses them, velocity, pitch and orientation) has changed since last update.
+     * Calling this marks the returned states as sent, so it should have a single consumer.
+     * @returns {PlayerState[]} An array of player states that have changed.
      */
     public getUpdatedPlayerStates(): PlayerState[] {
         const updatedPlayers: PlayerState[] = [];
         
         for (const [playerId, player] of this.players) {
-            const currentX = player.x;
-            const currentZ = player.z;
-            const currentRot = player.rot;
-            const lastKnownPosition = this.lastKnownPositions.get(playerId);
+            const currentState = player.getState();
+            const lastKnownState = this.lastKnownPositions.get(playerId);
             
-            if (!lastKnownPosition || 
-                currentX !== lastKnownPosition.x || 
-                currentZ !== lastKnownPosition.z ||
-                currentRot !== lastKnownPosition.rot) {
-                updatedPlayers.push(player.getState());
-                this.lastKnownPositions.set(playerId, { x: currentX, z: currentZ, rot: currentRot });
+            if (!lastKnownState || statesDiffer(currentState, lastKnownState)) {
+                updatedPlayers.push(currentState);
+                this.lastKnownPositions.set(playerId, currentState);
             }
         }
         
@@ -218,25 +786,160 @@ export class Game {
     }
 
     /**
-     * Game logic updates called at 2 times per second.
-     * This method would be called periodically by the game loop.
+     * Gets the custom attributes that changed since last update, by player.
+     * Calling this marks them as sent, so it should have a single consumer.
+     * @returns {Map<string, string[]>} The changed attribute names, keyed by the ID of each player with changes.
      */
-    public update(): void {
-        // Get players with position changes
-        const updatedPlayers = this.getUpdatedPlayerStates();
-        
-        // Only broadcast/log if there are actually players who moved
-        if (updatedPlayers.length > 1) {
-            // Here you would typically broadcast the updates to connected clients
-            // For now, we'll just log the updates
-            /* console.log(`Broadcasting updates for ${updatedPlayers.length} players:`, 
-                updatedPlayers.map(p => `${p.id}: (${p.x}, ${p.y}, ${p.z}) rot: ${p.rot}`)); */
-        }
-        // No output when no players have moved
-        
-        // Implement additional game logic here, e.g.,
-        // - Collision detection
-        // - Environmental interactions
-        // - AI updates
+    public getUpdatedPlayerAttributes(): Map<string, string[]> {
+        const updated = new Map<string, string[]>();
+        for (const [playerId, player] of this.players) {
+            const changed = player.takeChangedAttributes();
+            if (changed.length > 0) {
+                updated.set(playerId, changed);
+            }
+        }
+        return updated;
+    }
+
+    /**
+     * Spawns an entity into the world. Clients see it through the state channel
+     * once it is within their interest radius.
+     * @param {string} type - The kind of entity, e.g. 'pickup' or 'door'.
+     * @param {EntitySpawnOptions} options - ID, position, rotation, properties and components (optional).
+     * @returns {Entity} The new entity.
+     */
+    public createEntity(type: string, options: EntitySpawnOptions = {}): Entity {
+        const id = options.id ?? uuidv4();
+        if (this.entities.has(id)) {
+            throw new Error(`Entity with ID ${id} already exists.`);
+        }
+        const entity = new Entity(id, type, options);
+        this.entities.set(id, entity);
+        this.entityIndex.upsert(id, entity.x, entity.z);
+        options.components?.forEach(component => entity.addComponent(component));
+        return entity;
+    }
+
+    /**
+     * Removes an entity from the world and detaches its components.
+     * @param {string} entityId - The ID of the entity.
+     * @returns {boolean} True if the entity existed.
+     */
+    public destroyEntity(entityId: string): boolean {
+        const entity = this.entities.get(entityId);
+        if (!entity) {
+            return false;
+        }
+        this.entities.delete(entityId);
+        this.entityIndex.remove(entityId);
+        this.sentEntityVersions.delete(entityId);
+        entity.detachAll();
+        return true;
+    }
+
+    /**
+     * Gets an entity by ID.
+     * @param {string} entityId - The ID of the entity.
+     * @returns {Entity | undefined} The entity, or undefined if it does not exist.
+     */
+    public getEntity(entityId: string): Entity | undefined {
+        return this.entities.get(entityId);
+    }
+
+    /**
+     * Gets the state of a specific entity.
+     * @param {string} entityId - The ID of the entity.
+     * @returns {EntityState | null} The entity's state, or null if it does not exist.
+     */
+    public getEntityState(entityId: string): EntityState | null {
+        return this.entities.get(entityId)?.getState() ?? null;
+    }
+
+    /**
+     * Retrieves the states of all entities in the game.
+     * @returns {EntityState[]} An array of all entity states.
+     */
+    public getAllEntityStates(): EntityState[] {
+        return Array.from(this.entities.values()).map(entity => entity.getState());
+    }
+
+    /**
+     * Finds the IDs of all entities within a radius of a point on the X/Z plane.
+     * @param {number} x - The X coordinate of the centre.
+     * @param {number} z - The Z coordinate of the centre.
+     * @param {number} radius - The search radius.
+     * @returns {string[]} The IDs of the entities inside the radius.
+     */
+    public getEntityIdsInRadius(x: number, z: number, radius: number): string[] {
+        return this.entityIndex.queryRadius(x, z, radius);
+    }
+
+    /**
+     * Gets the IDs of the entities within a player's interest radius.
+     * @param {string} playerId - The ID of the observing player.
+     * @returns {Set<string>} The IDs of the entities in its area of interest (empty if the player does not exist).
+     */
+    public getEntityInterestSet(playerId: string): Set<string> {
+        const player = this.players.get(playerId);
+        if (!player) {
+            return new Set<string>();
+        }
+        return new Set(this.entityIndex.queryRadius(player.x, player.z, this.interestRadius));
+    }
+
+    /**
+     * Gets only the entities that spawned or changed since the last call. Destroyed
+     * entities simply drop out of interest sets. Like `getUpdatedPlayerStates`,
+     * this marks the states as sent, so it should have a single consumer.
+     * @returns {EntityState[]} An array of entity states that have changed.
+     */
+    public getUpdatedEntityStates(): EntityState[] {
+        const updated: EntityState[] = [];
+        this.entities.forEach((entity, entityId) => {
+            if (this.sentEntityVersions.get(entityId) !== entity.version) {
+                updated.push(entity.getState());
+                this.sentEntityVersions.set(entityId, entity.version);
+            }
+        });
+        return updated;
+    }
+
+    /**
+     * Game logic step: ticks every entity's components, then reindexes entity
+     * positions so interest queries see where components moved them, then
+     * pushes apart players that overlap each other or the level geometry, and
+     * finally brings to rest players that have not moved for a while.
+     * Called by the owning room on every tick of its scheduler.
+     * @param {number} elapsed - Simulated time since the previous update (ms), i.e. the room's fixed step.
+     */
+    public update(elapsed: number): void {
+        // Change tracking (getUpdatedPlayerStates, getUpdatedEntityStates) is consumed
+        // by the room's state sends, so it must not be drained here.
+        // Copy so components may create or destroy entities while being ticked
+        Array.from(this.entities.values()).forEach(entity => {
+            if (this.entities.has(entity.id)) {
+                entity.update(elapsed, this);
+            }
+        });
+        this.entities.forEach(entity => this.entityIndex.upsert(entity.id, entity.x, entity.z));
+
+        // Overlaps left by spawns, radius changes or server-side teleports; clients see the fix in the next delta
+        this.players.forEach((player, playerId) => {
+            const { x, z } = this.resolvePlayerPosition(playerId, player.x, player.z);
+            if (x !== player.x || z !== player.z) {
+                this.updatePlayerPosition(playerId, x, z);
+            }
+        });
+
+        // Velocity comes from accepted moves, so it would otherwise stay at the last move's
+        const now = getTimecode();
+        this.players.forEach((player, playerId) => {
+            const velocity = player.velocity;
+            const clock = this.moveClocks.get(playerId);
+            if (velocity && clock && (velocity.x !== 0 || velocity.y !== 0 || velocity.z !== 0)
+                && timecodeDistance(now, clock.serverT) > VELOCITY_TIMEOUT) {
+                player.velocity = { x: 0, y: 0, z: 0 };
+            }
+        });
     }
 }
\ No newline at end of file
@@ -0,0 +1,20 @@
+// Public API for embedding Keystone in another application.
+export { KeystoneServer, KeystoneServerConfig, KeystoneServerOptions, KeystoneServerEvents, PlayerJoinedEvent, PlayerLeftEvent, ClientMessageEvent, PlayerSummary, PlayerSelector, DEFAULT_SERVER_CONFIG } from './keystone';
+export { AdminChannel } from './admin';
+export { AuditLog, AuditEntry } from './audit';
+export { MessageRegistry, CustomMessageHandler } from './registry';
+export { Room, RoomConfig, RoomManager, CustomWebSocket, NameScope, DEFAULT_ROOM_CONFIG } from './room';
+export { TickScheduler } from './scheduler';
+export { Game, MovementConfig, MoveTransform, RotationMode, ROTATION_MODES, DEFAULT_MOVEMENT_CONFIG, DEFAULT_INTEREST_RADIUS } from './game';
+export { PlayerState, Velocity, Quaternion, AttributeValue, AttributeVisibility, AttributeDefinition, AttributeSchema, TEAM_ATTRIBUTE } from './player';
+export { ClientMessage, CustomClientMessage, ServerMessage, CustomServerMessage, KickedMessage, AnnouncementMessage, ProtocolFormat, encodeServerMessage, decodeClientMessage } from './protocol';
+export { MessageSchema, FieldRule } from './validation';
+export { RateLimit, RateLimitConfig, DEFAULT_RATE_LIMITS, DEFAULT_CUSTOM_RATE_LIMIT } from './ratelimit';
+export { AuthVerifier, BanList, createJwtVerifier } from './auth';
+export { StorageAdapter, FileStorage, PlayerProfile, WorldSnapshot } from './storage';
+export { Collider, Level, loadLevel, parseLevel } from './collision';
+export { ChatConfig, DEFAULT_CHAT_CONFIG, createWordListFilter } from './chat';
+export { SessionRecorder, Recording, RecordingConfig, RecordingEntry, RecordingHeader, readRecording, DEFAULT_RECORDING_CONFIG } from './recording';
+export { ReplayServer, ReplayServerConfig, DEFAULT_REPLAY_CONFIG, REPLAY_CONTROL_SCHEMAS } from './replay';
+export { KeystoneClient, KeystoneClientOptions, KeystoneClientEvents, ClientFormat, ClientStats, DEFAULT_CLIENT_OPTIONS } from './client';
+export { serverMetrics, renderMetrics, Counter, Histogram, Gauge } from './metrics';
@@ -0,0 +1,1393 @@
+// The embeddable game server: accepts WebSocket connections, negotiates the
+// protocol, authenticates and rate-limits clients and routes players into rooms.
+import { EventEmitter } from 'events';
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { v4 as uuidv4 } from 'uuid'; // For generating unique player IDs
+import { encodeServerMessage, decodeClientMessage, parseSubprotocol, detectClientFormat, PROTOCOL_FORMATS, PROTOCOL_VERSION, ProtocolFormat, SUPPORTED_PROTOCOL_VERSIONS, ClientMessage, ServerMessage, CustomServerMessage, IdAssignmentMessage, KickedMessage, AnnouncementMessage, HelloMessage, WelcomeMessage, HelloRejectedMessage, SessionMessage, ErrorMessage, NameAcceptedMessage, NameRejectedMessage, PositionCorrectionMessage, RoomJoinedMessage, RoomJoinRejectedMessage, RoomLeftMessage, RoomListMessage, ChatRejectedMessage, PingMessage, ServerShutdownMessage } from './protocol';
+import { CustomWebSocket, Room, RoomConfig, RoomManager, NameScope, DEFAULT_ROOM_CONFIG } from './room';
+import { playerHandles, createBinaryEncodingContext } from './binary';
+import { ErrorCode, MessageSchema, ViolationTracker } from './validation';
+import { MessageRegistry, CustomMessageHandler } from './registry';
+import { ResumeTokenSigner } from './session';
+import { LatencyEstimator } from './lag';
+import { MessageRateLimiter, ConnectionCounter, RateLimit, RateLimitConfig, DEFAULT_RATE_LIMITS, DEFAULT_CUSTOM_RATE_LIMIT } from './ratelimit';
+import { Authenticator, AuthenticatedRequest, AuthVerifier, BanList, normalizeAddress } from './auth';
+import { PlayerState, AttributeValue } from './player';
+import { PlayerProfile, StorageAdapter, getProfileKey } from './storage';
+import { Gauge, serverMetrics, recordMessageSent, renderMetrics } from './metrics';
+import { AdminChannel } from './admin';
+import { AuditLog } from './audit';
+import { RecordingConfig } from './recording';
+
+const NORMAL_CLOSE_CODE = 1000;
+const POLICY_VIOLATION_CLOSE_CODE = 1008;
+const GOING_AWAY_CLOSE_CODE = 1001;
+const SESSION_REPLACED_CLOSE_CODE = 4000;
+const RATE_LIMITED_CLOSE_CODE = 4001;
+const KICKED_CLOSE_CODE = 4002;
+const CLOSE_TIMEOUT = 2000; // How long `stop()` waits for a client to answer the close handshake before dropping it (ms)
+
+/**
+ * Settings for a KeystoneServer.
+ * @property {number} port - Port to listen on; ignored when `server` is given.
+ * @property {HttpServer | null} server - An existing HTTP server to accept WebSocket upgrades on, or null to listen on `port`.
+ * @property {ProtocolFormat} protocolMode - Format for clients that do not negotiate one.
+ * @property {number} helloTimeout - How long to wait for a `hello` before using `protocolMode` (ms).
+ * @property {RoomConfig} room - Settings of every room, including its tick rate.
+ * @property {number} maxRooms - Maximum number of rooms at once.
+ * @property {string} defaultRoomId - ID of the permanent room new players join.
+ * @property {NameScope} nameScope - Whether names are unique per room or server-wide.
+ * @property {number} maxViolations - Invalid messages tolerated per window before disconnecting.
+ * @property {number} violationWindow - Length of the violation window (ms).
+ * @property {number} sessionGracePeriod - How long a dropped player is kept for resuming (ms, 0 disables).
+ * @property {string | null} resumeSecret - Secret for signing resume tokens, or null for a random one per start.
+ * @property {AuthVerifier | null} authVerifier - Checks client tokens, or null to accept every connection anonymously.
+ * @property {boolean} authRequired - Whether anonymous connections are refused.
+ * @property {string[]} bannedUsers - User IDs that may not connect.
+ * @property {number} maxMutedPlayers - Mute list size per connection.
+ * @property {number} pingInterval - Time between latency pings (ms).
+ * @property {number} maxFrameSize - Larger frames close the connection with 1009 (bytes).
+ * @property {number} maxConnectionsPerIp - Simultaneous connections allowed from one address (0 for no limit).
+ * @property {RateLimitConfig} rateLimits - Per-connection limits for every built-in message type.
+ * @property {number} maxThrottled - Rate-limited messages tolerated per violation window before disconnecting.
+ * @property {StorageAdapter | null} storage - Where profiles and room snapshots are kept, or null for no persistence.
+ * @property {number} autosaveInterval - Time between saves of every profile and room (ms, 0 disables).
+ * @property {number} reconnectDelay - How long clients are told to wait before reconnecting after a shutdown (ms).
+ * @property {string | null} reconnectUrl - Where clients are told to reconnect after a shutdown, or null for the same address.
+ * @property {boolean} monitoring - Whether `/healthz`, `/readyz` and `/metrics` are served.
+ * @property {number | null} monitoringPort - Separate port for the monitoring endpoints, or null to serve them on `port`.
+ * @property {string | null} adminToken - Static token for the `/admin/` endpoints, or null to accept only verified admins.
+ * @property {string} adminRole - Role that lets a user verified by `authVerifier` use the `/admin/` endpoints.
+ * @property {string | null} auditLogFile - File that operator actions are appended to, or null to log them to the console only.
+ * @property {RecordingConfig | null} recording - Which rooms' sessions are recorded for replay, where and how much is kept, or null to record nothing.
+ */
+export interface KeystoneServerConfig {
+    port: number;
+    server: HttpServer | null;
+    protocolMode: ProtocolFormat;
+    helloTimeout: number;
+    room: RoomConfig;
+    maxRooms: number;
+    defaultRoomId: string;
+    nameScope: NameScope;
+    maxViolations: number;
+    violationWindow: number;
+    sessionGracePeriod: number;
+    resumeSecret: string | null;
+    authVerifier: AuthVerifier | null;
+    authRequired: boolean;
+    bannedUsers: string[];
+    maxMutedPlayers: number;
+    pingInterval: number;
+    maxFrameSize: number;
+    maxConnectionsPerIp: number;
+    rateLimits: RateLimitConfig;
+    maxThrottled: number;
+    storage: StorageAdapter | null;
+    autosaveInterval: number;
+    reconnectDelay: number;
+    reconnectUrl: string | null;
+    monitoring: boolean;
+    monitoringPort: number | null;
+    adminToken: string | null;
+    adminRole: string;
+    auditLogFile: string | null;
+    recording: RecordingConfig | null;
+}
+
+export const DEFAULT_SERVER_CONFIG: KeystoneServerConfig = {
+    port: 8080,
+    server: null,
+    protocolMode: 'json',
+    helloTimeout: 500,
+    room: DEFAULT_ROOM_CONFIG,
+    maxRooms: 100,
+    defaultRoomId: 'lobby',
+    nameScope: 'room',
+    maxViolations: 10,
+    violationWindow: 10000,
+    sessionGracePeriod: 30000,
+    resumeSecret: null,
+    authVerifier: null,
+    authRequired: false,
+    bannedUsers: [],
+    maxMutedPlayers: 100,
+    pingInterval: 2000,
+    maxFrameSize: 4096,
+    maxConnectionsPerIp: 8,
+    rateLimits: DEFAULT_RATE_LIMITS,
+    maxThrottled: 20,
+    storage: null,
+    autosaveInterval: 30000,
+    reconnectDelay: 5000,
+    reconnectUrl: null,
+    monitoring: true,
+    monitoringPort: null,
+    adminToken: null,
+    adminRole: 'admin',
+    auditLogFile: null,
+    recording: null,
+};
+
+/**
+ * Settings passed to the KeystoneServer constructor. Anything left out takes
+ * its value from DEFAULT_SERVER_CONFIG; room settings are merged field by field.
+ */
+export type KeystoneServerOptions = Partial<Omit<KeystoneServerConfig, 'room'>> & { room?: Partial<RoomConfig> };
+
+/**
+ * Emitted when a player joins a room.
+ * @property {string} playerId - The player's ID.
+ * @property {string} roomId - The room it joined.
+ * @property {CustomWebSocket} client - The player's connection.
+ */
+export interface PlayerJoinedEvent {
+    playerId: string;
+    roomId: string;
+    client: CustomWebSocket;
+}
+
+/**
+ * Emitted when a player is removed from a room: it left, switched rooms,
+ * disconnected for good or its suspended session expired.
+ * @property {string} playerId - The player's ID.
+ * @property {string} roomId - The room it left.
+ */
+export interface PlayerLeftEvent {
+    playerId: string;
+    roomId: string;
+}
+
+/**
+ * Emitted for every valid, rate-limited client message of a built-in type, before the server handles it.
+ * @property {string} playerId - The sending player's ID.
+ * @property {CustomWebSocket} client - The sending connection.
+ * @property {ClientMessage} message - The message.
+ */
+export interface ClientMessageEvent {
+    playerId: string;
+    client: CustomWebSocket;
+    message: ClientMessage;
+}
+
+/**
+ * Events emitted by a KeystoneServer, with their listener arguments.
+ */
+export type KeystoneServerEvents = {
+    playerJoined: [event: PlayerJoinedEvent];
+    playerLeft: [event: PlayerLeftEvent];
+    message: [event: ClientMessageEvent];
+};
+
+/**
+ * A player whose connection dropped, kept in its room until it resumes or the grace period ends.
+ */
+interface SuspendedSession {
+    roomId: string;
+    userId: string | null;
+    address: string;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * A player as listed to operators.
+ * @property {string} playerId - The player's ID.
+ * @property {string} roomId - The room it is in.
+ * @property {string | null} name - Its display name, if it has one.
+ * @property {number} x - X coordinate.
+ * @property {number} z - Z coordinate.
+ * @property {number} rot - Rotation in degrees.
+ * @property {string | null} userId - The user ID of its verified identity, or null if anonymous.
+ * @property {string} address - IP address of its (last) connection.
+ * @property {boolean} connected - False while the player is suspended.
+ */
+export interface PlayerSummary {
+    playerId: string;
+    roomId: string;
+    name: string | null;
+    x: number;
+    z: number;
+    rot: number;
+    userId: string | null;
+    address: string;
+    connected: boolean;
+}
+
+/**
+ * Picks out players for an operator action: by player ID, display name or IP address.
+ */
+export type PlayerSelector = { playerId: string } | { name: string } | { address: string };
+
+/**
+ * Picks the first Keystone subprotocol offered in the handshake that this
+ * server supports, e.g. `keystone.v1.msgpack`.
+ * @param {Set<string>} protocols - The subprotocols offered by the client.
+ * @returns {string | false} The selected subprotocol, or false to accept without one.
+ */
+export function selectSubprotocol(protocols: Set<string>): string | false {
+    for (const protocol of protocols) {
+        if (parseSubprotocol(protocol)) {
+            return protocol;
+        }
+    }
+    return false;
+}
+
+/**
+ * Gets the IP address an upgrade request came from, normalized (see `normalizeAddress`).
+ * @param {IncomingMessage} request - The HTTP upgrade request.
+ * @returns {string} The address, or 'unknown' if the socket has none.
+ */
+function getRemoteAddress(request: IncomingMessage): string {
+    return normalizeAddress(request.socket.remoteAddress ?? 'unknown');
+}
+
+/**
+ * Builds the `position_correction` that snaps a client to its player's state.
+ * Y is only sent in vertical worlds; pitch and orientation whenever the state has them.
+ * @param {PlayerState} state - The player's authoritative state.
+ * @param {boolean} vertical - Whether the world allows vertical movement.
+ * @returns {PositionCorrectionMessage} The message, without its timecode.
+ */
+function createPositionCorrection(state: PlayerState, vertical: boolean): PositionCorrectionMessage {
+    const correction = { type: 'position_correction', x: state.x, z: state.z, rot: state.rot } as PositionCorrectionMessage;
+    if (vertical) {
+        correction.y = state.y;
+    }
+    if (state.pitch !== undefined) {
+        correction.pitch = state.pitch;
+    }
+    if (state.qx !== undefined) {
+        correction.qx = state.qx;
+        correction.qy = state.qy;
+        correction.qz = state.qz;
+        correction.qw = state.qw;
+    }
+    return correction;
+}
+
+/**
+ * Reads the resume token a client put in its connection URL (`?resume=...`).
+ * @param {IncomingMessage} request - The HTTP upgrade request.
+ * @returns {string | null} The token, or null if none was given.
+ */
+function getResumeTokenFromRequest(request: IncomingMessage): string | null {
+    const url = new URL(request.url ?? '/', 'ws://localhost');
+    return url.searchParams.get('resume');
+}
+
+/**
+ * Starts an HTTP server listening on a port.
+ * @param {HttpServer} server - The server.
+ * @param {number} port - The port.
+ * @returns {Promise<void>} Resolves once listening, or rejects if the port cannot be bound.
+ */
+export function listenOnPort(server: HttpServer, port: number): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => {
+            server.off('error', reject);
+            server.on('error', error => console.error('HTTP server error:', error));
+            resolve();
+        });
+    });
+}
+
+/**
+ * Stops an HTTP server, dropping its idle keep-alive connections.
+ * @param {HttpServer} server - The server.
+ * @returns {Promise<void>} Resolves once the server is closed.
+ */
+export function closeHttpServer(server: HttpServer): Promise<void> {
+    return new Promise<void>(resolve => {
+        server.close(() => resolve());
+        server.closeIdleConnections();
+    });
+}
+
+/**
+ * A Keystone game server. Several may run in one process, each on its own port
+ * or HTTP server. Game logic hooks in through the events and custom message
+ * handlers rather than by editing the connection handler.
+ */
+export class KeystoneServer extends EventEmitter<KeystoneServerEvents> {
+    public readonly config: KeystoneServerConfig;
+    public readonly messages: MessageRegistry; // Message types added by the game
+    private wss: WebSocketServer | null = null;
+    private httpServer: HttpServer | null = null; // Serves `port` when no server was given
+    private monitoringServer: HttpServer | null = null; // Serves `monitoringPort`, if set
+    private roomManager: RoomManager | null = null;
+    private clients: Map<string, CustomWebSocket>; // Maps player ID to its current connection
+    private suspendedSessions: Map<string, SuspendedSession>; // Players whose connection dropped, kept in their room until they resume or the grace period ends
+    private resumeTokens: ResumeTokenSigner;
+    private authenticator: Authenticator;
+    private audit: AuditLog; // Operator actions
+    private admin: AdminChannel;
+    private connectionsPerIp: ConnectionCounter;
+    private connectionSlots: WeakMap<IncomingMessage, () => void>; // Releases the per-IP slot reserved for an upgrade request; safe to call more than once
+    private autosaveTimer: NodeJS.Timeout | null = null;
+    private stopping = false; // Set once `stop()` starts; no new connections or sessions are accepted after that
+
+    /**
+     * Creates a new KeystoneServer. Nothing listens until `start()` is called.
+     * @param {KeystoneServerOptions} options - Settings that differ from DEFAULT_SERVER_CONFIG (optional).
+     * @throws {Error} If authentication is required but no verifier is given.
+     */
+    constructor(options: KeystoneServerOptions = {}) {
+        super();
+        this.config = { ...DEFAULT_SERVER_CONFIG, ...options, room: { ...DEFAULT_SERVER_CONFIG.room, ...options.room } };
+        this.clients = new Map<string, CustomWebSocket>();
+        this.suspendedSessions = new Map<string, SuspendedSession>();
+        this.resumeTokens = new ResumeTokenSigner(this.config.resumeSecret ?? undefined);
+        this.authenticator = new Authenticator(this.config.authVerifier, this.config.authRequired, new BanList(this.config.bannedUsers));
+        this.connectionsPerIp = new ConnectionCounter(this.config.maxConnectionsPerIp);
+        this.connectionSlots = new WeakMap<IncomingMessage, () => void>();
+        this.messages = new MessageRegistry();
+        this.audit = new AuditLog(this.config.auditLogFile);
+        this.admin = new AdminChannel(this, this.config.adminToken, this.config.authVerifier, this.config.adminRole, this.audit);
+    }
+
+    /**
+     * Gets the room manager of the running server.
+     * @returns {RoomManager} The room manager.
+     * @throws {Error} If the server is not running.
+     */
+    public get rooms(): RoomManager {
+        if (!this.roomManager) {
+            throw new Error('KeystoneServer is not running.');
+        }
+        return this.roomManager;
+    }
+
+    /**
+     * Checks whether the server has been started and not stopped.
+     * @returns {boolean} True if the server is running.
+     */
+    public isRunning(): boolean {
+        return this.wss !== null;
+    }
+
+    /**
+     * Registers a game-defined client message type; shorthand for `messages.defineClientMessage`.
+     * Register types before `start()` so every connection gets their rate limit.
+     * @param {string} type - The message type, e.g. 'fire_weapon'. Built-in types cannot be taken over.
+     * @param {MessageSchema} schema - Rules for the message's fields other than `type` and `t`.
+     * @param {CustomMessageHandler} handler - Called for every valid message of the type.
+     * @param {RateLimit} rateLimit - Per-connection limit for the type (optional, DEFAULT_CUSTOM_RATE_LIMIT if not provided).
+     * @throws {Error} If the type is malformed, built in or already defined.
+     */
+    public handle(type: string, schema: MessageSchema, handler: CustomMessageHandler, rateLimit: RateLimit = DEFAULT_CUSTOM_RATE_LIMIT): void {
+        this.messages.defineClientMessage(type, schema, handler, rateLimit);
+    }
+
+    /**
+     * Starts accepting connections and creates the default room. If a port cannot
+     * be bound, everything started so far is torn down again, so `start()` may be retried.
+     * @returns {Promise<void>} Resolves once the server is listening; rejects if it is already running or a port cannot be bound.
+     */
+    public start(): Promise<void> {
+        if (this.wss) {
+            return Promise.reject(new Error('KeystoneServer is already running.'));
+        }
+        this.stopping = false;
+        this.roomManager = new RoomManager(this.config.room, this.config.nameScope, this.config.maxRooms, this.config.defaultRoomId, this.config.storage, this.messages, this.config.recording);
+        if (this.config.storage && this.config.autosaveInterval > 0) {
+            this.autosaveTimer = setInterval(() => this.saveAll(), this.config.autosaveInterval);
+        }
+
+        // Plain HTTP requests on the game port get the monitoring and admin endpoints
+        const httpServer = this.config.server ?? createServer((request, response) => {
+            const monitored = this.config.monitoringPort === null && this.handleMonitoringRequest(request, response);
+            if (!monitored && !this.handleAdminRequest(request, response)) {
+                response.writeHead(426, { 'Content-Type': 'text/plain' });
+                response.end('Upgrade Required');
+            }
+        });
+        this.httpServer = this.config.server ? null : httpServer;
+        const wss = new WebSocketServer({
+            server: httpServer,
+            maxPayload: this.config.maxFrameSize,
+            handleProtocols: selectSubprotocol,
+            verifyClient: (info, callback) => this.authenticateUpgrade(info, callback),
+        });
+        this.wss = wss;
+        wss.on('connection', (ws, request) => this.handleConnection(ws as CustomWebSocket, request));
+
+        wss.on('error', error => console.error('WebSocket server error:', error));
+
+        const listening: Promise<void>[] = [];
+        if (this.httpServer) {
+            listening.push(listenOnPort(this.httpServer, this.config.port).then(() => console.log(`WebSocket server listening on port ${this.config.port}`)));
+        }
+        if (this.config.monitoring && this.config.monitoringPort !== null) {
+            this.monitoringServer = createServer((request, response) => {
+                if (!this.handleMonitoringRequest(request, response) && !this.handleAdminRequest(request, response)) {
+                    response.writeHead(404, { 'Content-Type': 'text/plain' });
+                    response.end('Not Found');
+                }
+            });
+            listening.push(listenOnPort(this.monitoringServer, this.config.monitoringPort).then(() => console.log(`Monitoring endpoints listening on port ${this.config.monitoringPort}`)));
+        }
+        // Wait for every port, so none is left listening after the others fail
+        return Promise.allSettled(listening).then(results => {
+            const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+            if (failure) {
+                return this.abortStart(failure.reason);
+            }
+        });
+    }
+
+    /**
+     * Undoes a `start()` that could not listen: stops the rooms and the autosave
+     * timer, closes the WebSocket server and any port that did open, and resets
+     * the server to its stopped state.
+     * @returns {Promise<never>} Rejects with the listen error once everything is closed.
+     */
+    private async abortStart(error: unknown): Promise<never> {
+        if (this.autosaveTimer) {
+            clearInterval(this.autosaveTimer);
+            this.autosaveTimer = null;
+        }
+        const wss = this.wss;
+        await Promise.all([
+            this.roomManager?.stopAll(),
+            wss ? new Promise<void>(resolve => wss.close(() => resolve())) : undefined,
+            ...[this.httpServer, this.monitoringServer].map(server => server ? closeHttpServer(server) : undefined),
+        ]);
+        this.wss = null;
+        this.httpServer = null;
+        this.monitoringServer = null;
+        this.roomManager = null;
+        throw error;
+    }
+
+    /**
+     * Answers a monitoring request: `/healthz` (200 while the process serves requests),
+     * `/readyz` (200 while accepting connections, 503 before start and during a shutdown)
+     * and `/metrics` (Prometheus text format). Servers embedded in an existing HTTP
+     * server are not given the endpoints automatically; mount this in its request handler.
+     * @param {IncomingMessage} request - The HTTP request.
+     * @param {ServerResponse} response - The response to write.
+     * @returns {boolean} True if the request was answered, false if its path is not a monitoring endpoint or monitoring is disabled.
+     */
+    public handleMonitoringRequest(request: IncomingMessage, response: ServerResponse): boolean {
+        if (!this.config.monitoring || (request.method !== 'GET' && request.method !== 'HEAD')) {
+            return false;
+        }
+        const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+        switch (path) {
+            case '/healthz':
+                response.writeHead(200, { 'Content-Type': 'text/plain' });
+                response.end('ok\n');
+                return true;
+            case '/readyz': {
+                const ready = this.isRunning() && !this.stopping;
+                response.writeHead(ready ? 200 : 503, { 'Content-Type': 'text/plain' });
+                response.end(ready ? 'ready\n' : 'not ready\n');
+                return true;
+            }
+            case '/metrics':
+                response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+                response.end(renderMetrics(this.getGauges()));
+                return true;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Answers a request for the `/admin/` endpoints (see AdminChannel). They are served
+     * only if `adminToken` or `authVerifier` is set. Like the monitoring endpoints,
+     * they must be mounted by hand on an existing HTTP server.
+     * @param {IncomingMessage} request - The HTTP request.
+     * @param {ServerResponse} response - The response to write.
+     * @returns {boolean} True if the request is for the admin endpoints and will be answered, false otherwise.
+     */
+    public handleAdminRequest(request: IncomingMessage, response: ServerResponse): boolean {
+        return this.admin.handleRequest(request, response);
+    }
+
+    /**
+     * Lists every player in every room, suspended ones included.
+     * @returns {PlayerSummary[]} The players.
+     */
+    public listPlayers(): PlayerSummary[] {
+        const players: PlayerSummary[] = [];
+        this.rooms.getRooms().forEach(room => room.game.getAllPlayerStates().forEach(state => {
+            const client = this.clients.get(state.id);
+            const session = this.suspendedSessions.get(state.id);
+            players.push({
+                playerId: state.id,
+                roomId: room.id,
+                name: state.name,
+                x: state.x,
+                z: state.z,
+                rot: state.rot,
+                userId: client?.identity?.userId ?? session?.userId ?? null,
+                address: client?.address ?? session?.address ?? 'unknown',
+                connected: client !== undefined,
+            });
+        }));
+        return players;
+    }
+
+    /**
+     * Finds the players an operator action applies to.
+     * @param {PlayerSelector} selector - A player ID, display name or IP address.
+     * @returns {string[]} The IDs of the matching players; several may share an address.
+     */
+    public findPlayers(selector: PlayerSelector): string[] {
+        const players = this.listPlayers();
+        if ('playerId' in selector) {
+            return players.filter(player => player.playerId === selector.playerId).map(player => player.playerId);
+        }
+        if ('name' in selector) {
+            return players.filter(player => player.name === selector.name).map(player => player.playerId);
+        }
+        const address = normalizeAddress(selector.address);
+        return players.filter(player => player.address === address).map(player => player.playerId);
+    }
+
+    /**
+     * Removes a player from the server for good. A connected player is told why
+     * and disconnected without the chance to resume; a suspended one is dropped.
+     * @param {string} playerId - The ID of the player.
+     * @param {string} reason - Why, as shown to the player.
+     * @returns {boolean} True if the player was found.
+     */
+    public kick(playerId: string, reason: string): boolean {
+        const client = this.clients.get(playerId);
+        if (client) {
+            this.sendToClient(client, { type: 'kicked', reason } as KickedMessage);
+            // Ended here, so the close handler does not suspend the player
+            this.clients.delete(playerId);
+            this.endSession(client);
+            client.close(KICKED_CLOSE_CODE, 'Kicked'); // The reason went in the kicked message; close reasons are limited to 123 bytes
+            console.log(`Kicked player ${playerId}: ${reason}`);
+            return true;
+        }
+        const session = this.suspendedSessions.get(playerId);
+        if (session) {
+            clearTimeout(session.timer);
+            this.expireSession(playerId);
+            console.log(`Kicked suspended player ${playerId}: ${reason}`);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Bans a player and kicks everyone the ban covers. Players with a verified
+     * identity are banned by user ID; anonymous ones by IP address.
+     * @param {string} playerId - The ID of the player.
+     * @param {string} reason - Why, as shown to the kicked players.
+     * @returns {{ banned: { userId: string } | { address: string }; kicked: string[] } | null} What was banned and the IDs of the kicked players, or null if the player was not found.
+     */
+    public banPlayer(playerId: string, reason: string): { banned: { userId: string } | { address: string }; kicked: string[] } | null {
+        const player = this.listPlayers().find(summary => summary.playerId === playerId);
+        if (!player) {
+            return null;
+        }
+        if (player.userId !== null) {
+            return { banned: { userId: player.userId }, kicked: this.banUser(player.userId, reason) };
+        }
+        return { banned: { address: player.address }, kicked: this.banAddress(player.address, reason) };
+    }
+
+    /**
+     * Bans a user and kicks its players.
+     * @param {string} userId - The user ID.
+     * @param {string} reason - Why, as shown to the kicked players.
+     * @returns {string[]} The IDs of the kicked players.
+     */
+    public banUser(userId: string, reason: string): string[] {
+        this.authenticator.bans.ban(userId);
+        const kicked = this.listPlayers().filter(player => player.userId === userId).map(player => player.playerId);
+        kicked.forEach(playerId => this.kick(playerId, reason));
+        return kicked;
+    }
+
+    /**
+     * Bans an IP address and kicks the players connected from it.
+     * @param {string} address - The address.
+     * @param {string} reason - Why, as shown to the kicked players.
+     * @returns {string[]} The IDs of the kicked players.
+     */
+    public banAddress(address: string, reason: string): string[] {
+        this.authenticator.bans.banAddress(address);
+        const kicked = this.findPlayers({ address });
+        kicked.forEach(playerId => this.kick(playerId, reason));
+        return kicked;
+    }
+
+    /**
+     * Gets the bans applied to new connections.
+     * @returns {BanList} The ban list.
+     */
+    public get bans(): BanList {
+        return this.authenticator.bans;
+    }
+
+    /**
+     * Changes a player's display name regardless of what the player asked for.
+     * The name must still be free, and not reserved for another user.
+     * @param {string} playerId - The ID of the player.
+     * @param {string} name - The new name.
+     * @returns {boolean} True if the player was renamed, false if it was not found or the name is taken.
+     */
+    public renamePlayer(playerId: string, name: string): boolean {
+        const room = this.getPlayerRoom(playerId);
+        const userId = this.clients.get(playerId)?.identity?.userId ?? this.suspendedSessions.get(playerId)?.userId ?? null;
+        return room?.game.setPlayerName(playerId, name, userId) ?? false;
+    }
+
+    /**
+     * Gets one of a player's custom attributes (see `RoomConfig.attributes`).
+     * @param {string} playerId - The ID of the player.
+     * @param {string} key - The attribute name.
+     * @returns {AttributeValue | undefined} The value, or undefined if the player was not found or has no such attribute.
+     */
+    public getPlayerAttribute(playerId: string, key: string): AttributeValue | undefined {
+        return this.getPlayerRoom(playerId)?.game.getPlayerAttribute(playerId, key);
+    }
+
+    /**
+     * Sets one of a player's custom attributes. The change goes out with the room's
+     * next state updates, to the clients the attribute's visibility allows.
+     * @param {string} playerId - The ID of the player.
+     * @param {string} key - The attribute name.
+     * @param {AttributeValue} value - The new value, of the declared type or null.
+     * @returns {boolean} True if the attribute was set, false if the player was not found or the value was rejected.
+     */
+    public setPlayerAttribute(playerId: string, key: string, value: AttributeValue): boolean {
+        return this.getPlayerRoom(playerId)?.game.setPlayerAttribute(playerId, key, value) ?? false;
+    }
+
+    /**
+     * Moves a player to a position in its room and tells its client to snap there.
+     * The position is not checked against the level.
+     * @param {string} playerId - The ID of the player.
+     * @param {number} x - The new X coordinate.
+     * @param {number} z - The new Z coordinate.
+     * @param {number} rot - The new rotation (optional, unchanged if not provided).
+     * @param {number} y - The new Y coordinate (optional, unchanged if not provided; ignored unless the world is vertical).
+     * @returns {PlayerState | null} The player's new state, or null if it was not found.
+     */
+    public teleportPlayer(playerId: string, x: number, z: number, rot?: number, y?: number): PlayerState | null {
+        const game = this.getPlayerRoom(playerId)?.game;
+        const current = game?.getPlayerState(playerId);
+        if (!game || !current) {
+            return null;
+        }
+        const state = game.updatePlayerPositionAndRotation(playerId, x, z, rot ?? current.rot, y);
+        const client = this.clients.get(playerId);
+        if (state && client) {
+            this.sendToClient(client, createPositionCorrection(state, game.movement.vertical));
+        }
+        return state;
+    }
+
+    /**
+     * Sends an announcement to every connected player, in every room.
+     * @param {string} text - The announcement.
+     * @returns {number} The number of players it was sent to.
+     */
+    public announce(text: string): number {
+        let sent = 0;
+        this.clients.forEach(client => {
+            if (this.sendToClient(client, { type: 'announcement', text } as AnnouncementMessage)) {
+                sent++;
+            }
+        });
+        return sent;
+    }
+
+    /**
+     * Changes the time between ticks of every room, and of rooms created later.
+     * @param {number} tickRate - Milliseconds between simulation ticks.
+     */
+    public setTickRate(tickRate: number): void {
+        this.config.room = { ...this.config.room, tickRate };
+        this.rooms.setTickRate(tickRate);
+        console.log(`Tick rate set to ${tickRate}ms.`);
+    }
+
+    /**
+     * Gets the gauges of this server, read when metrics are collected.
+     */
+    private getGauges(): Gauge[] {
+        const rooms = this.roomManager?.getRooms() ?? [];
+        return [
+            { name: 'keystone_connected_clients', help: 'Open WebSocket connections.', read: () => this.wss?.clients.size ?? 0 },
+            { name: 'keystone_sessions', help: 'Connections with a player.', read: () => this.clients.size },
+            { name: 'keystone_suspended_sessions', help: 'Players whose connection dropped, kept for resuming.', read: () => this.suspendedSessions.size },
+            { name: 'keystone_rooms', help: 'Open rooms.', read: () => rooms.length },
+            { name: 'keystone_players', help: 'Players in each room\'s game, suspended ones included.', read: () => rooms.map(room => ({ labels: { room: room.id }, value: room.game.playerCount })) },
+        ];
+    }
+
+    /**
+     * Shuts the server down: stops accepting connections, warns every client with a
+     * `server_shutdown` message, saves every profile and room, stops the room loops
+     * and closes the connections. Suspended players are not kept.
+     * @param {string} reason - Why the server is going down, as shown to clients.
+     * @returns {Promise<void>} Resolves once every connection is closed and every save has finished.
+     */
+    public async stop(reason: string = 'Server shutting down'): Promise<void> {
+        const wss = this.wss;
+        if (!wss || this.stopping) {
+            return;
+        }
+        this.stopping = true;
+        console.log(`Shutting down (${reason}).`);
+
+        // Stop accepting connections; the open ones are closed below
+        const closed = new Promise<void>(resolve => wss.close(() => resolve()));
+        if (this.autosaveTimer) {
+            clearInterval(this.autosaveTimer);
+            this.autosaveTimer = null;
+        }
+        const connections = Array.from(wss.clients) as CustomWebSocket[];
+        connections.forEach(client => this.sendToClient(client, {
+            type: 'server_shutdown',
+            reason,
+            reconnectIn: this.config.reconnectDelay,
+            reconnectUrl: this.config.reconnectUrl
+        } as ServerShutdownMessage));
+
+        // Save while every player is still in its room
+        this.saveAll();
+        this.suspendedSessions.forEach(session => clearTimeout(session.timer));
+        this.suspendedSessions.clear();
+        await Promise.all([this.rooms.stopAll(), this.config.storage?.flush()]);
+        await this.audit.flush();
+
+        await Promise.all(connections.map(client => new Promise<void>(resolve => {
+            if (client.readyState === WebSocket.CLOSED) {
+                resolve();
+                return;
+            }
+            const timer = setTimeout(() => client.terminate(), CLOSE_TIMEOUT);
+            client.once('close', () => {
+                clearTimeout(timer);
+                resolve();
+            });
+            client.close(GOING_AWAY_CLOSE_CODE, 'Server shutting down');
+        })));
+        await closed;
+        await Promise.all([this.httpServer, this.monitoringServer].map(server => server ? closeHttpServer(server) : undefined));
+        this.httpServer = null;
+        this.monitoringServer = null;
+
+        this.clients.clear();
+        this.wss = null;
+        this.roomManager = null;
+        console.log('Shutdown complete.');
+    }
+
+    /**
+     * Sends a server message to a specific player by their ID.
+     * @param {string} playerId - The ID of the player to send the message to.
+     * @param {ServerMessage | CustomServerMessage} message - The message object to send; custom messages must be of a type defined in `messages`.
+     * @returns {boolean} - Returns true if message was sent successfully, false if player not found, connection closed or the message does not match its schema.
+     */
+    public sendToPlayer(playerId: string, message: ServerMessage | CustomServerMessage): boolean {
+        const client = this.clients.get(playerId);
+
+        if (!client) {
+            console.warn(`Attempted to send message to non-existent player: ${playerId}`);
+            return false;
+        }
+
+        return this.sendToClient(client, message);
+    }
+
+    /**
+     * Sends a server message to a connection in its negotiated format. Unlike
+     * `sendToPlayer`, this also works before the connection has a session.
+     * @param {CustomWebSocket} client - The connection to send the message to.
+     * @param {ServerMessage | CustomServerMessage} message - The message object to send; custom messages must be of a type defined in `messages`.
+     * @returns {boolean} - Returns true if message was sent successfully, false if the connection is closed or the message does not match its schema.
+     */
+    public sendToClient(client: CustomWebSocket, message: ServerMessage | CustomServerMessage): boolean {
+        if (client.readyState !== WebSocket.OPEN) {
+            console.warn(`Attempted to send message to player with closed connection: ${client.id}`);
+            return false;
+        }
+        const problem = this.messages.checkServerMessage(message);
+        if (problem) {
+            console.error(`Refused to send ${message.type} to player ${client.id}: ${problem}`);
+            return false;
+        }
+
+        try {
+            const encodedMessage = encodeServerMessage(message, client.format, client.binaryContext);
+            client.send(encodedMessage);
+            recordMessageSent(message.type, client.format, encodedMessage);
+            return true;
+        } catch (error) {
+            console.error(`Failed to send message to player ${client.id}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Checks the HTTP upgrade before the WebSocket is accepted, so addresses over
+     * their connection cap and unauthenticated or banned users never get a
+     * connection or a player. The identity is attached to the request for the connection handler.
+     * The address's connection slot is reserved before authenticating, so concurrent
+     * upgrades cannot all pass the cap, and released if the upgrade is refused or its
+     * socket closes, whether before or after the connection is established.
+     */
+    private authenticateUpgrade(info: { req: IncomingMessage }, callback: (accept: boolean, status?: number, reason?: string) => void): void {
+        if (this.stopping) {
+            callback(false, 503, 'Server shutting down');
+            return;
+        }
+        const address = getRemoteAddress(info.req);
+        if (!this.connectionsPerIp.tryAdd(address)) {
+            console.log(`Refused upgrade from ${address}: too many connections`);
+            callback(false, 429, 'Too many connections');
+            return;
+        }
+        let released = false;
+        const release = (): void => {
+            if (!released) {
+                released = true;
+                this.connectionsPerIp.remove(address);
+            }
+        };
+        this.connectionSlots.set(info.req, release);
+        info.req.socket.once('close', release);
+
+        this.authenticator.authenticate(info.req).then(result => {
+            if (!result.ok) {
+                release();
+                console.log(`Refused upgrade from ${address}: ${result.reason}`);
+                callback(false, result.status, result.reason);
+                return;
+            }
+            (info.req as AuthenticatedRequest).identity = result.identity;
+            callback(true);
+        }).catch(error => {
+            release();
+            console.error(`Failed to authenticate upgrade from ${address}:`, error);
+            callback(false, 500, 'Authentication failed');
+        });
+    }
+
+    /**
+     * Saves the profile of a player in a room. Saving happens in the background;
+     * failures are logged and the in-memory profile is still returned.
+     * @returns {PlayerProfile | null} The profile, or null if the player is not in the room.
+     */
+    private saveProfile(room: Room, playerId: string, userId: string | null): PlayerProfile | null {
+        const profile = room.createProfile(playerId, getProfileKey(playerId, userId));
+        const storage = this.config.storage;
+        if (profile && storage) {
+            storage.saveProfile(profile).catch(error => console.error(`Failed to save profile ${profile.key}:`, error));
+        }
+        return profile;
+    }
+
+    /**
+     * Saves the profiles of all connected and suspended players and a snapshot of every room.
+     */
+    private saveAll(): void {
+        this.clients.forEach(client => {
+            const room = this.getClientRoom(client);
+            if (room) {
+                client.profile = this.saveProfile(room, client.id, client.identity?.userId ?? null) ?? client.profile;
+            }
+        });
+        this.suspendedSessions.forEach((session, playerId) => {
+            const room = this.rooms.getRoom(session.roomId);
+            if (room) {
+                this.saveProfile(room, playerId, session.userId);
+            }
+        });
+        this.rooms.saveAllRooms();
+    }
+
+    /**
+     * Loads the saved profile of a connection's player into `client.profile`.
+     * A missing or unreadable profile leaves `client.profile` null.
+     */
+    private async restoreProfile(client: CustomWebSocket): Promise<void> {
+        const storage = this.config.storage;
+        if (!storage) {
+            return;
+        }
+        const key = getProfileKey(client.id, client.identity?.userId ?? null);
+        try {
+            client.profile = await storage.loadProfile(key);
+        } catch (error) {
+            console.error(`Failed to load profile ${key}:`, error);
+        }
+    }
+
+    /**
+     * Keeps a dropped player in its room for the session grace period so it can resume.
+     * Players that are not in a room (or when resuming is disabled) are removed at once.
+     */
+    private suspendSession(client: CustomWebSocket): void {
+        const playerId = client.id;
+        const room = this.getClientRoom(client);
+        if (!room || this.config.sessionGracePeriod <= 0) {
+            this.endSession(client);
+            return;
+        }
+        // Saved now too, in case the server goes down during the grace period
+        this.saveProfile(room, playerId, client.identity?.userId ?? null);
+        room.suspendClient(playerId);
+        const timer = setTimeout(() => this.expireSession(playerId), this.config.sessionGracePeriod);
+        this.suspendedSessions.set(playerId, { roomId: room.id, userId: client.identity?.userId ?? null, address: client.address, timer });
+    }
+
+    /**
+     * Removes a suspended player whose grace period ran out.
+     */
+    private expireSession(playerId: string): void {
+        const session = this.suspendedSessions.get(playerId);
+        if (!session) {
+            return;
+        }
+        this.suspendedSessions.delete(playerId);
+        const room = this.rooms.getRoom(session.roomId);
+        if (room) {
+            this.saveProfile(room, playerId, session.userId);
+            room.removeClient(playerId);
+            this.rooms.removeRoomIfEmpty(room.id);
+            this.emit('playerLeft', { playerId, roomId: room.id });
+        }
+        playerHandles.release(playerId);
+        console.log(`Session of player ${playerId} expired.`);
+    }
+
+    /**
+     * Removes a player for good: it leaves its room and its handle is released.
+     */
+    private endSession(client: CustomWebSocket): void {
+        // Leaving the room informs its remaining clients
+        this.leaveCurrentRoom(client);
+        playerHandles.release(client.id);
+    }
+
+    /**
+     * Reattaches a connection to the suspended player it presented a token for.
+     * @returns {boolean} True if the player was resumed.
+     */
+    private resumeSession(client: CustomWebSocket): boolean {
+        const session = this.suspendedSessions.get(client.id);
+        if (!session) {
+            return false;
+        }
+        clearTimeout(session.timer);
+        this.suspendedSessions.delete(client.id);
+        const room = this.rooms.getRoom(session.roomId);
+        if (!room) {
+            return false;
+        }
+        this.sendToClient(client, { type: 'room_joined', roomId: room.id } as RoomJoinedMessage);
+        return room.resumeClient(client);
+    }
+
+    /**
+     * Gets the room a player is in, whether connected or suspended.
+     */
+    private getPlayerRoom(playerId: string): Room | undefined {
+        const roomId = this.clients.get(playerId)?.roomId ?? this.suspendedSessions.get(playerId)?.roomId;
+        return roomId ? this.rooms.getRoom(roomId) : undefined;
+    }
+
+    /**
+     * Gets the room a client is currently in, or undefined if it is not in one.
+     */
+    private getClientRoom(client: CustomWebSocket): Room | undefined {
+        return client.roomId ? this.rooms.getRoom(client.roomId) : undefined;
+    }
+
+    /**
+     * Removes a client from its current room, dropping the room if it is now empty.
+     * The player's profile is saved first and kept on the client for the next room.
+     * @returns {string | null} The name the player had in the room, or null if it had none or was not in a room.
+     */
+    private leaveCurrentRoom(client: CustomWebSocket): string | null {
+        const room = this.getClientRoom(client);
+        if (!room) {
+            return null;
+        }
+        const name = room.game.getPlayerState(client.id)?.name ?? null;
+        client.profile = this.saveProfile(room, client.id, client.identity?.userId ?? null) ?? client.profile;
+        room.removeClient(client.id);
+        this.rooms.removeRoomIfEmpty(room.id);
+        this.emit('playerLeft', { playerId: client.id, roomId: room.id });
+        return name;
+    }
+
+    /**
+     * Moves a client into a room, creating the room if needed. The player's name
+     * is carried over when it is still available in the new room; players without
+     * one get the name in their saved profile or the display name of their
+     * verified identity, if any.
+     * @returns {boolean} True if the client joined the room.
+     */
+    private joinRoom(client: CustomWebSocket, roomId: string): boolean {
+        if (client.roomId === roomId) {
+            this.sendToPlayer(client.id, { type: 'room_joined', roomId } as RoomJoinedMessage);
+            return true;
+        }
+
+        const existing = this.rooms.getRoom(roomId);
+        if (existing && existing.isFull()) {
+            this.sendToPlayer(client.id, { type: 'room_join_rejected', roomId, reason: 'Room is full' } as RoomJoinRejectedMessage);
+            return false;
+        }
+        const room = existing ?? this.rooms.getOrCreateRoom(roomId);
+        if (!room) {
+            this.sendToPlayer(client.id, { type: 'room_join_rejected', roomId, reason: 'Room limit reached' } as RoomJoinRejectedMessage);
+            return false;
+        }
+
+        // Release the old room (and the name in it) before claiming the name in the new one
+        const name = this.leaveCurrentRoom(client);
+        this.sendToPlayer(client.id, { type: 'room_joined', roomId } as RoomJoinedMessage);
+        room.addClient(client, name ?? client.profile?.name ?? client.identity?.displayName ?? null);
+        this.emit('playerJoined', { playerId: client.id, roomId, client });
+        return true;
+    }
+
+    /**
+     * Sets up a new connection: its per-client state, protocol negotiation,
+     * session start (or resume) and message handling.
+     */
+    private handleConnection(client: CustomWebSocket, request: IncomingMessage): void {
+        const ws = client;
+        if (this.stopping) {
+            // The upgrade was verified before the shutdown started
+            ws.close(GOING_AWAY_CLOSE_CODE, 'Server shutting down');
+            return;
+        }
+
+        // Generate a unique ID for the new connection (replaced if it resumes a session)
+        let playerId = uuidv4();
+        const negotiated = ws.protocol ? parseSubprotocol(ws.protocol) : null;
+        client.id = playerId;
+        client.format = negotiated?.format ?? this.config.protocolMode;
+        client.protocolVersion = negotiated?.version ?? PROTOCOL_VERSION;
+        client.roomId = null;
+        client.seq = 0;
+        client.sendInterval = 1;
+        client.nextSendTick = 0;
+        client.keyframeTick = 0;
+        client.pendingPlayers = new Set<string>();
+        client.pendingEntities = new Set<string>();
+        client.pendingAttributes = new Map<string, Set<string>>();
+        client.visiblePlayers = new Set<string>();
+        client.visibleEntities = new Set<string>();
+        client.binaryContext = createBinaryEncodingContext();
+        client.identity = (request as AuthenticatedRequest).identity ?? null;
+        client.mutedPlayers = new Set<string>();
+        client.latency = new LatencyEstimator();
+        client.profile = null;
+        const address = getRemoteAddress(request);
+        client.address = address;
+        // The per-IP slot was reserved when the upgrade was verified
+        const releaseSlot = this.connectionSlots.get(request);
+
+        console.log(`Client connected: ${playerId}${client.identity ? ` as user ${client.identity.userId}` : ''}${negotiated ? ` (${ws.protocol})` : ''}`);
+        if (client.identity?.displayName && !this.rooms.reserveName(client.identity.displayName, client.identity.userId)) {
+            console.warn(`Display name "${client.identity.displayName}" of user ${client.identity.userId} is reserved for another user.`);
+        }
+
+        // The session starts once the format is known: at once if it was picked in
+        // the handshake, otherwise after a `hello`, the first other message, or the hello timeout.
+        let sessionStarted = false;
+        let helloTimer: NodeJS.Timeout | null = null;
+        let pingTimer: NodeJS.Timeout | null = null;
+        let resumeToken = getResumeTokenFromRequest(request);
+        // Cleared when the server closes the connection on purpose, so the player is not kept for resuming
+        let allowResume = true;
+        const violations = new ViolationTracker(this.config.maxViolations, this.config.violationWindow);
+        const rateLimiter = new MessageRateLimiter({ ...this.messages.getRateLimits(), ...this.config.rateLimits });
+        const throttled = new ViolationTracker(this.config.maxThrottled, this.config.violationWindow);
+
+        const rejectMessage = (code: ErrorCode, detail: string): void => {
+            serverMetrics.messagesRejected.inc({ code });
+            console.warn(`Rejected message from ${playerId}: ${code} (${detail})`);
+            this.sendToClient(client, { type: 'error', code, message: detail } as ErrorMessage);
+            if (violations.record()) {
+                this.sendToClient(client, { type: 'error', code: 'too_many_violations', message: 'Too many invalid messages' } as ErrorMessage);
+                console.warn(`Disconnecting ${playerId} after repeated invalid messages.`);
+                allowResume = false;
+                ws.close(POLICY_VIOLATION_CLOSE_CODE, 'Too many invalid messages');
+            }
+        };
+
+        // Dropped messages are not logged one by one, so a flooding client cannot fill the logs
+        const throttleMessage = (type: string): void => {
+            serverMetrics.messagesRejected.inc({ code: 'rate_limited' });
+            if (client.readyState !== WebSocket.OPEN) {
+                return; // Already being closed
+            }
+            this.sendToClient(client, { type: 'error', code: 'rate_limited', message: `Too many ${type} messages` } as ErrorMessage);
+            if (throttled.record()) {
+                console.warn(`Disconnecting ${playerId} for exceeding rate limits (last: ${type}).`);
+                allowResume = false;
+                ws.close(RATE_LIMITED_CLOSE_CODE, 'Rate limit exceeded');
+            }
+        };
+
+        const startSession = (): void => {
+            if (sessionStarted) {
+                return;
+            }
+            sessionStarted = true;
+            if (helloTimer) {
+                clearTimeout(helloTimer);
+                helloTimer = null;
+            }
+
+            // Reclaim the player named by a valid resume token if it is suspended or still attached to an old connection
+            // Only the identity that owned the player may resume it
+            const resumeId = resumeToken ? this.resumeTokens.verify(resumeToken) : null;
+            const ownerId = resumeId ? (this.suspendedSessions.get(resumeId)?.userId ?? this.clients.get(resumeId)?.identity?.userId ?? null) : null;
+            if (resumeId && (this.suspendedSessions.has(resumeId) || this.clients.has(resumeId)) && ownerId === (client.identity?.userId ?? null)) {
+                const previous = this.clients.get(resumeId);
+                if (previous) {
+                    // The old connection is presumably dead; suspend it and take over
+                    this.suspendSession(previous);
+                    this.clients.delete(resumeId);
+                    previous.close(SESSION_REPLACED_CLOSE_CODE, 'Session resumed elsewhere');
+                }
+                playerId = resumeId;
+                client.id = playerId;
+            } else if (resumeId && this.config.storage && !client.identity && !this.suspendedSessions.has(resumeId) && !this.clients.has(resumeId)) {
+                // The session is gone (expired, or the server restarted), but an anonymous
+                // player keeps its ID so the profile saved under it is found
+                playerId = resumeId;
+                client.id = playerId;
+            } else if (resumeToken) {
+                console.log(`Player ${playerId} presented an invalid or expired resume token.`);
+            }
+            this.clients.set(playerId, client);
+            playerHandles.assign(playerId);
+
+            // Send the new client their assigned ID directly
+            this.sendToClient(client, { type: 'id_assignment', playerId } as IdAssignmentMessage);
+
+            pingTimer = setInterval(() => {
+                this.sendToClient(client, { type: 'ping', id: client.latency.startPing(), rtt: client.latency.rtt } as PingMessage);
+            }, this.config.pingInterval);
+
+            const resuming = this.suspendedSessions.has(playerId);
+            this.sendToClient(client, { type: 'session', resumeToken: this.resumeTokens.issue(playerId), resumed: resuming } as SessionMessage);
+            if (!resuming || !this.resumeSession(client)) {
+                this.restoreProfile(client).then(() => {
+                    // Skip connections that closed or were taken over while the profile was loading
+                    if (this.clients.get(client.id) !== client || this.stopping) {
+                        return;
+                    }
+                    // Returning players go back to the room they were last in, new ones start in the default room
+                    const savedRoomId = client.profile?.roomId;
+                    if (!savedRoomId || !this.joinRoom(client, savedRoomId)) {
+                        this.joinRoom(client, this.rooms.defaultRoomId);
+                    }
+                });
+            }
+        };
+
+        const handleHello = (hello: HelloMessage, helloFormat: ProtocolFormat): void => {
+            if (!SUPPORTED_PROTOCOL_VERSIONS.includes(hello.version) || !PROTOCOL_FORMATS.includes(hello.format)) {
+                // Answer in the format the hello itself was written in
+                client.format = helloFormat;
+                this.sendToClient(client, {
+                    type: 'hello_rejected',
+                    reason: `Unsupported protocol version or format: v${hello.version} ${hello.format}`,
+                    supportedVersions: SUPPORTED_PROTOCOL_VERSIONS
+                } as HelloRejectedMessage);
+                console.log(`Player ${playerId} sent unsupported hello (v${hello.version} ${hello.format})`);
+                ws.close(1002, 'Unsupported protocol');
+                return;
+            }
+            client.format = hello.format;
+            client.protocolVersion = hello.version;
+            resumeToken = hello.resumeToken ?? resumeToken;
+            this.sendToClient(client, { type: 'welcome', format: client.format, version: client.protocolVersion } as WelcomeMessage);
+            console.log(`Player ${playerId} negotiated ${client.format} v${client.protocolVersion}`);
+            startSession();
+        };
+
+        if (negotiated) {
+            startSession();
+        } else {
+            helloTimer = setTimeout(startSession, this.config.helloTimeout);
+        }
+
+        ws.on('message', message => {
+            // Ensure message is a Buffer before decoding
+            if (message instanceof Buffer) {
+                const data = new Uint8Array(message);
+
+                if (!sessionStarted) {
+                    // The first frame may be a hello in any format
+                    const helloFormat = detectClientFormat(data);
+                    const firstMessage = decodeClientMessage(data, helloFormat);
+                    if (firstMessage.ok && !firstMessage.custom && firstMessage.message.type === 'hello') {
+                        handleHello(firstMessage.message, helloFormat);
+                        return;
+                    }
+                    startSession();
+                }
+
+                const result = decodeClientMessage(data, client.format, this.messages.getClientSchemas());
+
+                if (!result.ok) {
+                    rejectMessage(result.code, result.detail);
+                    return;
+                }
+                if (!rateLimiter.allow(result.message.type)) {
+                    throttleMessage(result.message.type);
+                    return;
+                }
+
+                serverMetrics.messagesReceived.inc({ type: result.message.type });
+                const room = this.getClientRoom(client);
+                room?.recordClientMessage(playerId, result.message);
+
+                if (result.custom) {
+                    try {
+                        this.messages.getHandler(result.message.type)?.(result.message, client, room);
+                    } catch (error) {
+                        console.error(`Handler for ${result.message.type} from ${playerId} failed:`, error);
+                    }
+                    return;
+                }
+                const decodedMessage = result.message;
+                this.emit('message', { playerId, client, message: decodedMessage });
+
+                // Handle different client message types
+                switch (decodedMessage.type) {
+                    case 'hello':
+                        console.warn(`Ignoring hello from ${playerId}: the protocol is already set to ${client.format}.`);
+                        break;
+                    case 'join_room':
+                        this.joinRoom(client, decodedMessage.roomId);
+                        break;
+                    case 'leave_room':
+                        if (room) {
+                            this.leaveCurrentRoom(client);
+                            this.sendToPlayer(playerId, { type: 'room_left', roomId: room.id } as RoomLeftMessage);
+                        }
+                        break;
+                    case 'list_rooms':
+                        this.sendToPlayer(playerId, { type: 'room_list', rooms: this.rooms.listRooms() } as RoomListMessage);
+                        break;
+                    case 'move':
+                        const moveMsg = decodedMessage;
+                        // Moves always apply to the sender's own player
+                        if (room) {
+                            const result = room.game.applyClientMove(playerId, moveMsg.x, moveMsg.z, moveMsg.rot, moveMsg.t, moveMsg);
+                            if (result && result.corrected) {
+                                // Tell the client where the server actually put it
+                                this.sendToPlayer(playerId, createPositionCorrection(result.state, room.game.movement.vertical));
+                            }
+                            // The game loop will broadcast the state,
+                            // so no need to broadcast immediately here for every move.
+                        }
+                        break;
+                    case 'set_name':
+                        const setNameMsg = decodedMessage;
+                        if (!room) {
+                            this.sendToPlayer(playerId, {
+                                type: 'name_rejected',
+                                reason: 'Not in a room'
+                            } as NameRejectedMessage);
+                        } else {
+                            const ownerId = client.identity?.userId ?? null;
+                            const nameSet = room.game.setPlayerName(playerId, setNameMsg.name, ownerId);
+                            if (nameSet) {
+                                this.sendToPlayer(playerId, { type: 'name_accepted' } as NameAcceptedMessage);
+                                console.log(`Player ${playerId} successfully set name to "${setNameMsg.name}"`);
+                            } else {
+                                const reserved = room.game.isNameReserved(setNameMsg.name, ownerId);
+                                this.sendToPlayer(playerId, {
+                                    type: 'name_rejected',
+                                    reason: reserved ? 'Name is reserved' : 'Name already taken'
+                                } as NameRejectedMessage);
+                                console.log(`Player ${playerId} failed to set name "${setNameMsg.name}" - ${reserved ? 'reserved' : 'already taken'}`);
+                            }
+                        }
+                        break;
+                    case 'chat':
+                        const chatResult = room
+                            ? room.sendChat(playerId, decodedMessage.channel, decodedMessage.text, decodedMessage.to)
+                            : { ok: false as const, reason: 'Not in a room' };
+                        if (!chatResult.ok) {
+                            this.sendToPlayer(playerId, { type: 'chat_rejected', reason: chatResult.reason } as ChatRejectedMessage);
+                        }
+                        break;
+                    case 'mute':
+                        if (decodedMessage.playerId !== playerId && client.mutedPlayers.size < this.config.maxMutedPlayers) {
+                            client.mutedPlayers.add(decodedMessage.playerId);
+                        }
+                        break;
+                    case 'unmute':
+                        client.mutedPlayers.delete(decodedMessage.playerId);
+                        break;
+                    case 'pong':
+                        if (!client.latency.recordPong(decodedMessage.id, decodedMessage.t)) {
+                            console.warn(`Ignoring unexpected pong ${decodedMessage.id} from ${playerId}.`);
+                        }
+                        break;
+                    case 'resync':
+                        // Client detected a gap in sequence numbers; send it a fresh keyframe
+                        console.log(`Player ${playerId} requested resync (last seq: ${decodedMessage.lastSeq ?? 'unknown'}, current: ${client.seq})`);
+                        room?.resync(playerId);
+                        break;
+                    default:
+                        console.warn(`Unknown message type received from ${playerId}:`, decodedMessage);
+                }
+            } else {
+                rejectMessage('malformed', 'Expected a single binary frame');
+            }
+        });
+
+        ws.once('close', () => releaseSlot?.());
+
+        const handleDisconnect = (dropped: boolean): void => {
+            if (helloTimer) {
+                clearTimeout(helloTimer);
+                helloTimer = null;
+            }
+            if (pingTimer) {
+                clearInterval(pingTimer);
+                pingTimer = null;
+            }
+            // Skip connections without a session, already handled, or taken over by a resumed connection.
+            // During a shutdown every profile was already saved, so players are not suspended either.
+            if (this.clients.get(playerId) !== client || this.stopping) {
+                return;
+            }
+            this.clients.delete(playerId);
+            // Only dropped connections are kept for resuming; a client that closed normally has quit
+            if (allowResume && dropped) {
+                this.suspendSession(client);
+            } else {
+                this.endSession(client);
+            }
+        };
+
+        ws.on('close', code => {
+            console.log(`Client disconnected: ${playerId}`);
+            handleDisconnect(code !== NORMAL_CLOSE_CODE && code !== GOING_AWAY_CLOSE_CODE);
+        });
+
+        ws.on('error', error => {
+            console.error(`WebSocket error for client ${playerId}:`, error);
+            // Inform others of disconnection due to error
+            handleDisconnect(true);
+        });
+    }
+}
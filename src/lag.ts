@@ -0,0 +1,142 @@
+// Lag compensation: per-player position history for rewinding the world to an
+// earlier timecode, and ping/pong based latency and clock offset estimates.
+import { PlayerState } from './player';
+import { getTimecode, timecodeDistance, TIMECODE_WRAP } from './protocol';
+
+export const DEFAULT_HISTORY_SIZE = 128; // Snapshots kept per player (about two seconds of moves at 60 Hz)
+
+/**
+ * Timestamped snapshots of one player's state, oldest first, in a fixed-size ring buffer.
+ * A player's state only changes when a snapshot is recorded, so the state at
+ * any timecode is the latest snapshot taken at or before it.
+ */
+export class PositionHistory {
+    private readonly capacity: number;
+    private timecodes: number[];
+    private states: PlayerState[];
+    private start = 0; // Index of the oldest snapshot
+    private count = 0;
+
+    /**
+     * Creates a new PositionHistory.
+     * @param {number} capacity - Maximum number of snapshots kept.
+     */
+    constructor(capacity: number = DEFAULT_HISTORY_SIZE) {
+        this.capacity = Math.max(1, capacity);
+        this.timecodes = new Array<number>(this.capacity);
+        this.states = new Array<PlayerState>(this.capacity);
+    }
+
+    /**
+     * Records a snapshot, overwriting the oldest one if the buffer is full.
+     * @param {number} timecode - Server timecode the state took effect.
+     * @param {PlayerState} state - The player's state.
+     */
+    public record(timecode: number, state: PlayerState): void {
+        const index = (this.start + this.count) % this.capacity;
+        this.timecodes[index] = timecode;
+        this.states[index] = state;
+        if (this.count < this.capacity) {
+            this.count++;
+        } else {
+            this.start = (this.start + 1) % this.capacity;
+        }
+    }
+
+    /**
+     * Gets the state the player had at a timecode. Timecodes from before the
+     * oldest snapshot kept get that snapshot, once the buffer has wrapped.
+     * @param {number} timecode - Server timecode to look up.
+     * @returns {PlayerState | null} The state, or null if the player did not exist yet at that time.
+     */
+    public sample(timecode: number): PlayerState | null {
+        // Walk back from the newest snapshot to the first one not after the timecode
+        for (let i = this.count - 1; i >= 0; i--) {
+            const index = (this.start + i) % this.capacity;
+            if (timecodeDistance(timecode, this.timecodes[index]) >= 0) {
+                return this.states[index];
+            }
+        }
+        if (this.count === 0 || this.count < this.capacity) {
+            // Nothing was overwritten, so the first snapshot is when the player appeared
+            return null;
+        }
+        return this.states[this.start];
+    }
+}
+
+/**
+ * Round-trip time and clock offset of one client, smoothed over ping/pong exchanges.
+ */
+export class LatencyEstimator {
+    private readonly smoothing: number;
+    private pending: { id: number; sentAt: number } | null = null; // The ping awaiting a pong
+    private nextPingId = 1;
+    private _rtt: number | null = null;
+    private _clockOffset: number | null = null;
+
+    /**
+     * Creates a new LatencyEstimator.
+     * @param {number} smoothing - Weight of each new sample, between 0 and 1.
+     */
+    constructor(smoothing: number = 0.2) {
+        this.smoothing = smoothing;
+    }
+
+    /**
+     * Gets the smoothed round-trip time.
+     * @returns {number | null} Round-trip time in milliseconds, or null before the first pong.
+     */
+    public get rtt(): number | null {
+        return this._rtt;
+    }
+
+    /**
+     * Gets the smoothed clock offset: how far the client's timecodes run ahead (+) or behind (-) the server's.
+     * @returns {number | null} Offset in milliseconds, or null before the first pong.
+     */
+    public get clockOffset(): number | null {
+        return this._clockOffset;
+    }
+
+    /**
+     * Starts a new ping. An unanswered earlier ping is abandoned.
+     * @returns {number} The ID to send in the `ping` message.
+     */
+    public startPing(): number {
+        const id = this.nextPingId;
+        this.nextPingId = (this.nextPingId % 0xffffffff) + 1;
+        this.pending = { id, sentAt: getTimecode() };
+        return id;
+    }
+
+    /**
+     * Records the pong for the outstanding ping.
+     * @param {number} id - The ping ID echoed by the client.
+     * @param {number} clientTimecode - The client's timecode when it answered.
+     * @returns {boolean} True if the pong matched the outstanding ping.
+     */
+    public recordPong(id: number, clientTimecode: number): boolean {
+        if (!this.pending || this.pending.id !== id) {
+            return false;
+        }
+        const now = getTimecode();
+        const rtt = Math.max(0, timecodeDistance(now, this.pending.sentAt));
+        // The client answered roughly halfway through the round trip
+        const offset = timecodeDistance(clientTimecode, this.pending.sentAt + rtt / 2);
+        this.pending = null;
+        this._rtt = this._rtt === null ? rtt : this._rtt + (rtt - this._rtt) * this.smoothing;
+        this._clockOffset = this._clockOffset === null ? offset : this._clockOffset + (offset - this._clockOffset) * this.smoothing;
+        return true;
+    }
+
+    /**
+     * Converts a timecode from the client's clock to the server's.
+     * @param {number} clientTimecode - A timecode sent by the client.
+     * @returns {number} The matching server timecode (the input unchanged before the first pong).
+     */
+    public toServerTimecode(clientTimecode: number): number {
+        const timecode = Math.round(clientTimecode - (this._clockOffset ?? 0)) % TIMECODE_WRAP;
+        return timecode < 0 ? timecode + TIMECODE_WRAP : timecode;
+    }
+}
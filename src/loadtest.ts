@@ -0,0 +1,435 @@
+// Load-testing CLI: connects scripted bots to a server and reports latency,
+// bandwidth per client, the jitter of the state updates they receive and the
+// jitter of the server's own ticks.
+import { parseArgs } from 'util';
+import { KeystoneClient, ClientFormat } from './client';
+import { getTimecode, timecodeDistance } from './protocol';
+
+/**
+ * How bots move: not at all, a random walk, circles around where they spawned,
+ * or back and forth along the X axis.
+ */
+export type MovementPattern = 'idle' | 'random' | 'circle' | 'line';
+
+const MOVEMENT_PATTERNS: MovementPattern[] = ['idle', 'random', 'circle', 'line'];
+const CIRCLE_RADIUS = 10; // Radius of the `circle` pattern
+const LINE_LENGTH = 20; // Distance covered by the `line` pattern before turning
+const TURN_CHANCE = 0.05; // Chance per move that a `random` bot picks a new heading
+const METRICS_TIMEOUT = 2000; // How long to wait for the server's metrics (ms)
+
+/**
+ * Settings of a load test, from the command line.
+ * @property {string} url - The server's WebSocket URL.
+ * @property {number} bots - Number of bots.
+ * @property {ClientFormat} format - Wire format every bot speaks.
+ * @property {MovementPattern} pattern - How the bots move.
+ * @property {number} speed - Distance a bot moves per second; keep it under the server's `MAX_SPEED` to avoid corrections.
+ * @property {number} moveRate - Moves each bot sends per second.
+ * @property {number} duration - How long to run once every bot is connected (s).
+ * @property {number} ramp - Time between bot connections (ms).
+ * @property {number} reportInterval - Time between progress reports (s).
+ * @property {string | null} metricsUrl - The server's Prometheus endpoint, for its own tick timings, or null to skip them.
+ */
+interface LoadTestConfig {
+    url: string;
+    bots: number;
+    format: ClientFormat;
+    pattern: MovementPattern;
+    speed: number;
+    moveRate: number;
+    duration: number;
+    ramp: number;
+    reportInterval: number;
+    metricsUrl: string | null;
+}
+
+/**
+ * Tick timings scraped from the server's `/metrics`, summed over its rooms.
+ */
+interface ServerTicks {
+    durationSum: number; // keystone_tick_duration_seconds_sum
+    durationCount: number; // keystone_tick_duration_seconds_count
+    intervalSum: number; // keystone_tick_interval_seconds_sum
+    intervalCount: number; // keystone_tick_interval_seconds_count
+    intervalBuckets: Map<number, number>; // keystone_tick_interval_seconds_bucket, cumulative count by upper bound (s)
+    overruns: number; // keystone_tick_overruns_total
+}
+
+/**
+ * A connected bot and what was measured for it.
+ */
+interface Bot {
+    client: KeystoneClient;
+    heading: number; // Direction of travel in radians
+    origin: { x: number; z: number } | null; // Anchor of the bot's pattern, set from where it first saw itself
+    elapsed: number; // Time spent moving (s)
+    updates: number; // State and delta messages received
+    delays: number[]; // Arrival time minus the server's timecode of each state/delta since the last sample; includes the clocks' constant offset (ms)
+    rtts: number[]; // Round-trip estimates from the server's pings (ms)
+}
+
+/**
+ * Measurements taken over a period, across every bot.
+ */
+interface Sample {
+    rtts: number[]; // Round-trip estimates (ms)
+    jitter: number[]; // How much later each state/delta arrived than its bot's quickest one (ms)
+    bandwidths: number[]; // Received bandwidth of each bot (KiB/s)
+    updateRates: number[]; // State/delta messages each bot received per second
+}
+
+/**
+ * Counters of a bot at the previous sample.
+ */
+interface Traffic {
+    bytes: number;
+    updates: number;
+}
+
+/**
+ * Summary statistics of a sample.
+ */
+interface Summary {
+    mean: number;
+    p50: number;
+    p95: number;
+    max: number;
+}
+
+const USAGE = `Usage: node dist/loadtest.js [options]
+  --url <url>               Server WebSocket URL (default ws://localhost:8080)
+  --bots <n>                Number of bots (default 10)
+  --format <json|msgpack>   Wire format (default json)
+  --pattern <name>          ${MOVEMENT_PATTERNS.join(', ')} (default random)
+  --speed <units/s>         Bot movement speed (default 5)
+  --move-rate <per s>       Moves per bot per second (default 10)
+  --duration <s>            Test length once all bots are connected (default 30)
+  --ramp <ms>               Delay between bot connections (default 20)
+  --report-interval <s>     Time between progress reports (default 5)
+  --metrics <url|none>      Server metrics endpoint (default /metrics on the server's host and port)
+
+The server allows 8 connections per address by default; start it with
+MAX_CONNECTIONS_PER_IP=0 to run more bots from one machine.`;
+
+/**
+ * Reads the settings from the command line.
+ * @returns {LoadTestConfig | null} The settings, or null if help was asked for.
+ * @throws {Error} If an option is unknown or out of range.
+ */
+function parseConfig(argv: string[]): LoadTestConfig | null {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            url: { type: 'string', default: 'ws://localhost:8080' },
+            bots: { type: 'string', default: '10' },
+            format: { type: 'string', default: 'json' },
+            pattern: { type: 'string', default: 'random' },
+            speed: { type: 'string', default: '5' },
+            'move-rate': { type: 'string', default: '10' },
+            duration: { type: 'string', default: '30' },
+            ramp: { type: 'string', default: '20' },
+            'report-interval': { type: 'string', default: '5' },
+            metrics: { type: 'string' },
+            help: { type: 'boolean', default: false },
+        },
+    });
+    if (values.help) {
+        return null;
+    }
+    const config: LoadTestConfig = {
+        url: values.url,
+        bots: parseInt(values.bots),
+        format: values.format as ClientFormat,
+        pattern: values.pattern as MovementPattern,
+        speed: parseFloat(values.speed),
+        moveRate: parseFloat(values['move-rate']),
+        duration: parseFloat(values.duration),
+        ramp: parseFloat(values.ramp),
+        reportInterval: parseFloat(values['report-interval']),
+        metricsUrl: values.metrics === 'none' ? null : values.metrics ?? getMetricsUrl(values.url),
+    };
+    if (config.format !== 'json' && config.format !== 'msgpack') {
+        throw new Error('--format must be json or msgpack.');
+    }
+    if (!MOVEMENT_PATTERNS.includes(config.pattern)) {
+        throw new Error(`--pattern must be one of ${MOVEMENT_PATTERNS.join(', ')}.`);
+    }
+    const numbers: [string, number][] = [['bots', config.bots], ['speed', config.speed], ['move-rate', config.moveRate], ['duration', config.duration], ['report-interval', config.reportInterval]];
+    numbers.forEach(([name, value]) => {
+        if (!(value > 0)) {
+            throw new Error(`--${name} must be a positive number.`);
+        }
+    });
+    if (!(config.ramp >= 0)) {
+        throw new Error('--ramp must not be negative.');
+    }
+    return config;
+}
+
+/**
+ * Gets the metrics endpoint served next to a WebSocket URL, e.g. `http://host:8080/metrics` for `ws://host:8080`.
+ */
+function getMetricsUrl(url: string): string {
+    return new URL('/metrics', url.replace(/^ws/, 'http')).toString();
+}
+
+/**
+ * Reads the tick timings from the server's metrics.
+ * @returns {Promise<ServerTicks | null>} The timings, or null if the endpoint could not be read.
+ */
+async function readServerTicks(url: string): Promise<ServerTicks | null> {
+    try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(METRICS_TIMEOUT) });
+        if (!response.ok) {
+            return null;
+        }
+        const text = await response.text();
+        const read = (name: string): number => Number(new RegExp(`^${name} (\\S+)$`, 'm').exec(text)?.[1] ?? NaN);
+        const intervalBuckets = new Map<number, number>();
+        for (const match of text.matchAll(/^keystone_tick_interval_seconds_bucket\{le="([^"]+)"\} (\S+)$/gm)) {
+            intervalBuckets.set(match[1] === '+Inf' ? Infinity : Number(match[1]), Number(match[2]));
+        }
+        const ticks: ServerTicks = {
+            durationSum: read('keystone_tick_duration_seconds_sum'),
+            durationCount: read('keystone_tick_duration_seconds_count'),
+            intervalSum: read('keystone_tick_interval_seconds_sum'),
+            intervalCount: read('keystone_tick_interval_seconds_count'),
+            intervalBuckets,
+            overruns: read('keystone_tick_overruns_total'),
+        };
+        const counters = [ticks.durationSum, ticks.durationCount, ticks.intervalSum, ticks.intervalCount, ticks.overruns];
+        return counters.every(Number.isFinite) ? ticks : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Summarizes a sample; every statistic is 0 for an empty one.
+ */
+function summarize(values: number[]): Summary {
+    if (values.length === 0) {
+        return { mean: 0, p50: 0, p95: 0, max: 0 };
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const percentile = (p: number): number => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+    return { mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length, p50: percentile(0.5), p95: percentile(0.95), max: sorted[sorted.length - 1] };
+}
+
+/**
+ * Finds the smallest histogram bucket holding a share of the observations made between two scrapes.
+ * @returns {number | null} The bucket's upper bound (s), or null if nothing was observed in between.
+ */
+function bucketPercentile(before: Map<number, number>, after: Map<number, number>, p: number): number | null {
+    const bounds = Array.from(after.keys()).sort((a, b) => a - b);
+    const counts = bounds.map(bound => (after.get(bound) ?? 0) - (before.get(bound) ?? 0));
+    const total = counts[counts.length - 1] ?? 0;
+    if (total <= 0) {
+        return null;
+    }
+    return bounds[counts.findIndex(count => count >= p * total)];
+}
+
+/**
+ * Works out a bot's next position under its pattern.
+ * @returns {{ x: number; z: number; rot: number } | null} The position to move to, or null to stay put.
+ */
+function stepBot(bot: Bot, pattern: MovementPattern, speed: number, dt: number): { x: number; z: number; rot: number } | null {
+    const self = bot.client.self;
+    if (!self || pattern === 'idle') {
+        return null;
+    }
+    // The circle is centered so that it passes through the spawn point
+    bot.origin ??= pattern === 'circle'
+        ? { x: self.x - Math.cos(bot.heading) * CIRCLE_RADIUS, z: self.z - Math.sin(bot.heading) * CIRCLE_RADIUS }
+        : { x: self.x, z: self.z };
+    bot.elapsed += dt;
+    const toDegrees = (radians: number): number => ((radians * 180 / Math.PI) % 360 + 360) % 360 - 180;
+    switch (pattern) {
+        case 'random': {
+            if (Math.random() < TURN_CHANCE) {
+                bot.heading = Math.random() * 2 * Math.PI;
+            }
+            return { x: self.x + Math.cos(bot.heading) * speed * dt, z: self.z + Math.sin(bot.heading) * speed * dt, rot: toDegrees(bot.heading) };
+        }
+        case 'circle': {
+            const angle = bot.heading + bot.elapsed * speed / CIRCLE_RADIUS;
+            return { x: bot.origin.x + Math.cos(angle) * CIRCLE_RADIUS, z: bot.origin.z + Math.sin(angle) * CIRCLE_RADIUS, rot: toDegrees(angle + Math.PI / 2) };
+        }
+        case 'line': {
+            // Triangle wave over [0, LINE_LENGTH]
+            const travelled = (bot.elapsed * speed) % (2 * LINE_LENGTH);
+            const offset = travelled < LINE_LENGTH ? travelled : 2 * LINE_LENGTH - travelled;
+            return { x: bot.origin.x + offset, z: bot.origin.z, rot: travelled < LINE_LENGTH ? 90 : -90 };
+        }
+    }
+}
+
+/**
+ * Connects one bot and starts recording its measurements.
+ */
+async function connectBot(config: LoadTestConfig, index: number): Promise<Bot> {
+    const client = new KeystoneClient(config.url, { format: config.format });
+    const bot: Bot = { client, heading: Math.random() * 2 * Math.PI, origin: null, elapsed: 0, updates: 0, delays: [], rtts: [] };
+    client.on('update', message => {
+        bot.updates++;
+        bot.delays.push(timecodeDistance(getTimecode(), message.t));
+    });
+    client.on('ping', rtt => {
+        if (rtt !== null) {
+            bot.rtts.push(rtt);
+        }
+    });
+    await client.connect();
+    client.setName(`bot-${index}`);
+    return bot;
+}
+
+/**
+ * Takes the measurements every bot made since the last call.
+ * Each bot's clock differs from the server's by a fixed offset, so an update's
+ * jitter is its delay beyond the quickest update that bot received in the sample.
+ * @param {Bot[]} bots - The bots to measure.
+ * @param {number} seconds - Time since the last call.
+ * @param {Map<Bot, Traffic>} traffic - Each bot's counters at the last call; updated here.
+ */
+function collect(bots: Bot[], seconds: number, traffic: Map<Bot, Traffic>): Sample {
+    const sample: Sample = { rtts: [], jitter: [], bandwidths: [], updateRates: [] };
+    bots.forEach(bot => {
+        const previous = traffic.get(bot) ?? { bytes: 0, updates: 0 };
+        const quickest = Math.min(...bot.delays);
+        sample.rtts.push(...bot.rtts);
+        bot.delays.forEach(delay => sample.jitter.push(delay - quickest));
+        sample.bandwidths.push((bot.client.stats.bytesReceived - previous.bytes) / seconds / 1024);
+        sample.updateRates.push((bot.updates - previous.updates) / seconds);
+        traffic.set(bot, { bytes: bot.client.stats.bytesReceived, updates: bot.updates });
+        bot.rtts = [];
+        bot.delays = [];
+    });
+    return sample;
+}
+
+/**
+ * Writes a report of a sample. The server's tick interval percentiles are bucket
+ * bounds of its histogram, so they are only as fine as its buckets.
+ * @param {ServerTicks | null} before - The server's tick timings at the start of the sample, if known.
+ * @param {ServerTicks | null} after - The same at its end.
+ */
+function report(label: string, bots: Bot[], sample: Sample, before: ServerTicks | null, after: ServerTicks | null): void {
+    const rtt = summarize(sample.rtts);
+    const jitter = summarize(sample.jitter);
+    const bandwidth = summarize(sample.bandwidths);
+    const updateRate = summarize(sample.updateRates);
+    const corrections = bots.reduce((sum, bot) => sum + bot.client.stats.corrections, 0);
+    const resyncs = bots.reduce((sum, bot) => sum + bot.client.stats.resyncs, 0);
+    console.log(`[${label}] ${bots.filter(bot => bot.client.isOpen()).length}/${bots.length} bots connected`);
+    console.log(`  latency (rtt ms):          mean ${rtt.mean.toFixed(1)}  p50 ${rtt.p50.toFixed(1)}  p95 ${rtt.p95.toFixed(1)}  max ${rtt.max.toFixed(1)}`);
+    console.log(`  bandwidth (KiB/s/bot):     mean ${bandwidth.mean.toFixed(2)}  p95 ${bandwidth.p95.toFixed(2)}  max ${bandwidth.max.toFixed(2)}`);
+    console.log(`  updates (per s/bot):       mean ${updateRate.mean.toFixed(1)}  max ${updateRate.max.toFixed(1)}`);
+    console.log(`  update jitter (ms):        mean ${jitter.mean.toFixed(2)}  p95 ${jitter.p95.toFixed(2)}  max ${jitter.max.toFixed(2)}`);
+    if (before && after && after.durationCount > before.durationCount) {
+        const ticks = after.durationCount - before.durationCount;
+        const meanDuration = (after.durationSum - before.durationSum) / ticks * 1000;
+        console.log(`  server ticks:              ${ticks}  mean duration ${meanDuration.toFixed(3)}ms  overruns ${after.overruns - before.overruns}`);
+    }
+    if (before && after && after.intervalCount > before.intervalCount) {
+        const meanInterval = (after.intervalSum - before.intervalSum) / (after.intervalCount - before.intervalCount) * 1000;
+        const bound = (p: number): string => {
+            const value = bucketPercentile(before.intervalBuckets, after.intervalBuckets, p);
+            return value === null ? '-' : value === Infinity ? 'over the largest bucket' : `<= ${(value * 1000).toFixed(0)}`;
+        };
+        console.log(`  server tick interval (ms): mean ${meanInterval.toFixed(2)}  p95 ${bound(0.95)}  p99 ${bound(0.99)}`);
+    }
+    console.log(`  corrections ${corrections}  resyncs ${resyncs} (so far)`);
+}
+
+/**
+ * Runs a load test: connects the bots one by one, moves them for the configured
+ * duration while reporting periodically, then reports the whole run and disconnects them.
+ */
+async function run(config: LoadTestConfig): Promise<void> {
+    console.log(`Connecting ${config.bots} ${config.format} bots to ${config.url} (${config.pattern}, ${config.speed} units/s, ${config.moveRate} moves/s).`);
+    const bots: Bot[] = [];
+    for (let index = 0; index < config.bots; index++) {
+        try {
+            bots.push(await connectBot(config, index));
+        } catch (error) {
+            console.error(`Bot ${index} failed to connect:`, (error as Error).message);
+            if ((error as Error).message.includes('429')) {
+                console.error('The server refused more connections from this address; start it with MAX_CONNECTIONS_PER_IP=0.');
+                break;
+            }
+        }
+        if (config.ramp > 0) {
+            await new Promise(resolve => setTimeout(resolve, config.ramp));
+        }
+    }
+    if (bots.length === 0) {
+        throw new Error('No bot could connect.');
+    }
+    console.log(`${bots.length} bots connected; running for ${config.duration}s.`);
+
+    const moveInterval = 1000 / config.moveRate;
+    const mover = setInterval(() => bots.forEach(bot => {
+        const next = stepBot(bot, config.pattern, config.speed, moveInterval / 1000);
+        if (next) {
+            bot.client.move(next.x, next.z, next.rot);
+        }
+    }), moveInterval);
+
+    // Measurements taken while connecting are dropped; the run starts now
+    const traffic = new Map<Bot, Traffic>();
+    collect(bots, 1, traffic);
+    const startTraffic = new Map(traffic);
+    const total: Sample = { rtts: [], jitter: [], bandwidths: [], updateRates: [] };
+    const readTicks = (): Promise<ServerTicks | null> => config.metricsUrl ? readServerTicks(config.metricsUrl) : Promise.resolve(null);
+    const startTicks = await readTicks();
+    if (config.metricsUrl && !startTicks) {
+        console.warn(`Could not read server metrics from ${config.metricsUrl}; server tick timings are left out.`);
+    }
+    let lastTicks = startTicks;
+    const started = performance.now();
+    let lastReport = started;
+    const takeSample = (): Sample => {
+        const now = performance.now();
+        const sample = collect(bots, (now - lastReport) / 1000, traffic);
+        lastReport = now;
+        total.rtts.push(...sample.rtts);
+        total.jitter.push(...sample.jitter);
+        return sample;
+    };
+    const reporter = setInterval(async () => {
+        const label = `${Math.round((performance.now() - started) / 1000)}s`;
+        const sample = takeSample();
+        const ticks = startTicks ? await readTicks() : null;
+        report(label, bots, sample, lastTicks, ticks);
+        lastTicks = ticks ?? lastTicks;
+    }, config.reportInterval * 1000);
+
+    await new Promise(resolve => setTimeout(resolve, config.duration * 1000));
+    clearInterval(mover);
+    clearInterval(reporter);
+    takeSample();
+    const seconds = (performance.now() - started) / 1000;
+    total.bandwidths = bots.map(bot => (bot.client.stats.bytesReceived - (startTraffic.get(bot)?.bytes ?? 0)) / seconds / 1024);
+    total.updateRates = bots.map(bot => (bot.updates - (startTraffic.get(bot)?.updates ?? 0)) / seconds);
+    report('total', bots, total, startTicks, startTicks ? await readTicks() : null);
+    await Promise.all(bots.map(bot => bot.client.close()));
+}
+
+let config: LoadTestConfig | null;
+try {
+    config = parseConfig(process.argv.slice(2));
+} catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    process.exit(1);
+}
+if (!config) {
+    console.log(USAGE);
+    process.exit(0);
+}
+run(config).then(() => process.exit(0), error => {
+    console.error('Load test failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,210 @@
+// Prometheus metrics: counters and histograms shared by every server in the
+// process, gauges read on demand, and the text exposition format.
+import { ProtocolFormat } from './protocol';
+
+type Labels = Record<string, string>;
+
+const ENCODE_BUCKETS = [0.00001, 0.00005, 0.0001, 0.0005, 0.001, 0.005, 0.01]; // Upper bounds of the encode time histogram (s)
+const TICK_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.0167, 0.025, 0.05, 0.1, 0.25]; // Upper bounds of the tick duration histogram (s)
+const TICK_INTERVAL_BUCKETS = [0.005, 0.01, 0.015, 0.016, 0.017, 0.018, 0.02, 0.025, 0.033, 0.05, 0.1, 0.25]; // Upper bounds of the tick interval histogram (s)
+
+/**
+ * Escapes a label value for the exposition format.
+ */
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+/**
+ * Formats a label set as `{name="value",...}`, or an empty string if there are no labels.
+ */
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Formats a sample value; Prometheus spells infinity `+Inf`.
+ */
+function formatValue(value: number): string {
+    return value === Infinity ? '+Inf' : String(value);
+}
+
+/**
+ * Writes the HELP and TYPE lines of a metric.
+ */
+function formatHeader(name: string, help: string, type: 'counter' | 'gauge' | 'histogram'): string[] {
+    return [`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`, `# TYPE ${name} ${type}`];
+}
+
+/**
+ * A metric that only goes up, with one value per label set.
+ */
+export class Counter {
+    public readonly name: string;
+    private readonly help: string;
+    private values: Map<string, { labels: Labels; value: number }>; // Keyed by the formatted label set
+
+    /**
+     * Creates a new Counter.
+     * @param {string} name - The metric name, ending in `_total`.
+     * @param {string} help - What the metric counts.
+     * @param {boolean} labelled - Whether values are split by labels; an unlabelled counter is exposed as 0 before its first increment (optional, false if not provided).
+     */
+    constructor(name: string, help: string, labelled: boolean = false) {
+        this.name = name;
+        this.help = help;
+        this.values = new Map<string, { labels: Labels; value: number }>();
+        if (!labelled) {
+            this.values.set('', { labels: {}, value: 0 });
+        }
+    }
+
+    /**
+     * Adds to the counter.
+     * @param {Labels} labels - The label set to add to (optional, none if not provided).
+     * @param {number} amount - How much to add (optional, 1 if not provided).
+     */
+    public inc(labels: Labels = {}, amount: number = 1): void {
+        const key = formatLabels(labels);
+        const entry = this.values.get(key);
+        if (entry) {
+            entry.value += amount;
+        } else {
+            this.values.set(key, { labels, value: amount });
+        }
+    }
+
+    /**
+     * Writes the counter in the exposition format.
+     * @returns {string[]} The lines.
+     */
+    public collect(): string[] {
+        const lines = formatHeader(this.name, this.help, 'counter');
+        this.values.forEach((entry, key) => lines.push(`${this.name}${key} ${formatValue(entry.value)}`));
+        return lines;
+    }
+}
+
+/**
+ * Counts observations into cumulative buckets, with their sum and count.
+ */
+export class Histogram {
+    public readonly name: string;
+    private readonly help: string;
+    private readonly buckets: number[]; // Upper bounds, ascending, without +Inf
+    private counts: number[]; // Observations per bucket (not cumulative); the last slot is +Inf
+    private sum = 0;
+    private count = 0;
+
+    /**
+     * Creates a new Histogram.
+     * @param {string} name - The metric name.
+     * @param {string} help - What the metric measures.
+     * @param {number[]} buckets - Upper bounds of the buckets, ascending.
+     */
+    constructor(name: string, help: string, buckets: number[]) {
+        this.name = name;
+        this.help = help;
+        this.buckets = buckets;
+        this.counts = new Array(buckets.length + 1).fill(0);
+    }
+
+    /**
+     * Records an observation.
+     * @param {number} value - The observed value.
+     */
+    public observe(value: number): void {
+        let index = this.buckets.findIndex(bound => value <= bound);
+        if (index === -1) {
+            index = this.buckets.length;
+        }
+        this.counts[index]++;
+        this.sum += value;
+        this.count++;
+    }
+
+    /**
+     * Writes the histogram in the exposition format.
+     * @returns {string[]} The lines.
+     */
+    public collect(): string[] {
+        const lines = formatHeader(this.name, this.help, 'histogram');
+        let cumulative = 0;
+        [...this.buckets, Infinity].forEach((bound, index) => {
+            cumulative += this.counts[index];
+            lines.push(`${this.name}_bucket${formatLabels({ le: formatValue(bound) })} ${cumulative}`);
+        });
+        lines.push(`${this.name}_sum ${this.sum}`, `${this.name}_count ${this.count}`);
+        return lines;
+    }
+}
+
+/**
+ * A value read when metrics are collected, e.g. the number of open connections.
+ * @property {string} name - The metric name.
+ * @property {string} help - What the metric measures.
+ * @property {Function} read - Returns the current value, or one value per label set.
+ */
+export interface Gauge {
+    name: string;
+    help: string;
+    read: () => number | { labels: Labels; value: number }[];
+}
+
+/**
+ * Writes a gauge in the exposition format.
+ * @param {Gauge} gauge - The gauge to read.
+ * @returns {string[]} The lines.
+ */
+export function collectGauge(gauge: Gauge): string[] {
+    const lines = formatHeader(gauge.name, gauge.help, 'gauge');
+    const values = gauge.read();
+    if (typeof values === 'number') {
+        lines.push(`${gauge.name} ${formatValue(values)}`);
+    } else {
+        values.forEach(({ labels, value }) => lines.push(`${gauge.name}${formatLabels(labels)} ${formatValue(value)}`));
+    }
+    return lines;
+}
+
+/**
+ * Counters and histograms recorded wherever messages are encoded, sent and
+ * received and rooms tick. Shared by every server in the process, like the
+ * default registry of a Prometheus client library.
+ */
+export const serverMetrics = {
+    messagesReceived: new Counter('keystone_messages_received_total', 'Valid client messages received, by type.', true),
+    messagesRejected: new Counter('keystone_messages_rejected_total', 'Client messages rejected by validation or rate limiting, by error code.', true),
+    messagesSent: new Counter('keystone_messages_sent_total', 'Server messages sent to clients, by type.', true),
+    bytesSent: new Counter('keystone_bytes_sent_total', 'Bytes of server messages sent to clients, by wire format.', true),
+    encodeDuration: new Histogram('keystone_encode_duration_seconds', 'Time spent encoding a server message.', ENCODE_BUCKETS),
+    tickDuration: new Histogram('keystone_tick_duration_seconds', 'Time spent in a room tick.', TICK_BUCKETS),
+    tickInterval: new Histogram('keystone_tick_interval_seconds', 'Time between the starts of consecutive room ticks.', TICK_INTERVAL_BUCKETS),
+    tickOverruns: new Counter('keystone_tick_overruns_total', 'Room ticks that took longer than the tick interval.'),
+    ticksSkipped: new Counter('keystone_ticks_skipped_total', 'Room ticks dropped because a room fell too far behind to catch up.'),
+    stateSendsSkipped: new Counter('keystone_state_sends_skipped_total', 'State sends to a client skipped because its send buffer was over the limit.'),
+};
+
+/**
+ * Records a server message handed to a connection.
+ * @param {string} type - The message type.
+ * @param {ProtocolFormat} format - The connection's format.
+ * @param {Uint8Array | string} encoded - The encoded message.
+ */
+export function recordMessageSent(type: string, format: ProtocolFormat, encoded: Uint8Array | string): void {
+    serverMetrics.messagesSent.inc({ type });
+    serverMetrics.bytesSent.inc({ format }, typeof encoded === 'string' ? Buffer.byteLength(encoded) : encoded.byteLength);
+}
+
+/**
+ * Writes the shared metrics and a server's gauges in the Prometheus text format.
+ * @param {Gauge[]} gauges - The server's gauges.
+ * @returns {string} The exposition, ending in a newline.
+ */
+export function renderMetrics(gauges: Gauge[]): string {
+    const lines: string[] = [];
+    gauges.forEach(gauge => lines.push(...collectGauge(gauge)));
+    Object.values(serverMetrics).forEach(metric => lines.push(...metric.collect()));
+    return lines.join('\n') + '\n';
+}
@@ -1,21 +1,91 @@
 // Defines the PlayerState interface and a simple Player class for managing player data.
 
 /**
- * Represents the essential state of a player in the game.
+ * Represents the essential state of a player in the game. The optional fields
+ * are only present in worlds that enable them (see `MovementConfig`), so games
+ * on the X/Z plane keep the plain position-and-yaw state.
  * @property {string} id - Unique identifier for the player (e.g., WebSocket ID).
  * @property {string} name - The player's display name (optional, null if not set).
  * @property {number} x - The player's current X coordinate.
- * @property {number} y - The player's current Y coordinate (fixed as vertical movement is disallowed).
+ * @property {number} y - The player's current Y coordinate (fixed unless the world allows vertical movement).
  * @property {number} z - The player's current Z coordinate.
- * @property {number} rot - The player's rotation in degrees.
+ * @property {number} rot - The player's rotation about the Y axis (yaw) in degrees.
+ * @property {number} vx - The player's velocity along X in units per second (worlds that track velocity).
+ * @property {number} vy - The player's velocity along Y in units per second (worlds that track velocity).
+ * @property {number} vz - The player's velocity along Z in units per second (worlds that track velocity).
+ * @property {number} pitch - The player's pitch in degrees, positive looking up (`pitch_yaw` worlds).
+ * @property {number} qx - X component of the player's orientation quaternion (`quaternion` worlds).
+ * @property {number} qy - Y component of the player's orientation quaternion (`quaternion` worlds).
+ * @property {number} qz - Z component of the player's orientation quaternion (`quaternion` worlds).
+ * @property {number} qw - W component of the player's orientation quaternion (`quaternion` worlds).
+ * @property {Record<string, AttributeValue>} attrs - Custom attributes the recipient may see; in deltas only the ones that changed (optional, absent if none).
  */
 export interface PlayerState {
     id: string;
     name: string | null;
     x: number;
-    y: number; // Y is fixed as per requirement (no vertical movement)
+    y: number;
     z: number;
     rot: number;
+    vx?: number;
+    vy?: number;
+    vz?: number;
+    pitch?: number;
+    qx?: number;
+    qy?: number;
+    qz?: number;
+    qw?: number;
+    attrs?: Record<string, AttributeValue>;
+}
+
+/**
+ * Value of a custom player attribute. Kept to primitives so every wire format can carry it.
+ */
+export type AttributeValue = string | number | boolean | null;
+
+/**
+ * Who is sent an attribute: only the player's own client, the clients of players
+ * on the same team (the player's own included), or everyone who can see the player.
+ * A player's team is its `team` attribute; players whose team is null are on none.
+ */
+export type AttributeVisibility = 'owner' | 'team' | 'everyone';
+
+/**
+ * Declares a custom player attribute.
+ * @property {string} type - The type of the attribute's values; null is always allowed.
+ * @property {AttributeVisibility} visibility - Who is sent the attribute.
+ * @property {AttributeValue} default - The value new players start with (optional, null if not provided).
+ */
+export interface AttributeDefinition {
+    type: 'string' | 'number' | 'boolean';
+    visibility: AttributeVisibility;
+    default?: AttributeValue;
+}
+
+/**
+ * The custom attributes players in a game have, by name.
+ */
+export type AttributeSchema = Record<string, AttributeDefinition>;
+
+export const TEAM_ATTRIBUTE = 'team'; // Attribute that decides who sees 'team' attributes
+
+/**
+ * A velocity in units per second.
+ */
+export interface Velocity {
+    x: number;
+    y: number;
+    z: number;
+}
+
+/**
+ * An orientation as a unit quaternion, with Y up.
+ */
+export interface Quaternion {
+    x: number;
+    y: number;
+    z: number;
+    w: number;
 }
 
 /**
@@ -25,9 +95,16 @@ export class Player {
     private _id: string;
     private _name: string | null;
     private _x: number;
-    private _y: number; // Fixed Y-coordinate
+    private _y: number;
     private _z: number;
     private _rot: number;
+    private _velocity: Velocity | null = null; // Set in worlds that track velocity
+    private _pitch: number | null = null; // Set in `pitch_yaw` worlds
+    private _orientation: Quaternion | null = null; // Set in `quaternion` worlds
+    private _stats: Map<string, number>; // Game-defined counters, kept in the player's profile but not replicated
+    private readonly attributeSchema: AttributeSchema;
+    private attributes: Map<string, AttributeValue>; // Game-defined replicated values, one per schema entry
+    private changedAttributes: Set<string>; // Attribute names changed since the last `takeChangedAttributes()`
 
     /**
      * Creates a new Player instance.
@@ -36,14 +113,20 @@ export class Player {
      * @param {number} initialY - The player's starting Y coordinate (defaulting to 1 if not provided).
      * @param {number} initialZ - The player's starting Z coordinate (defaulting to 1 if not provided).
      * @param {number} initialRot - The player's starting rotation in degrees (defaulting to 0 if not provided).
+     * @param {Record<string, number>} initialStats - Stats restored from a saved profile (optional, none if not provided).
+     * @param {AttributeSchema} attributeSchema - The custom attributes the player has (optional, none if not provided).
      */
-    constructor(id: string, initialX: number = 1, initialY: number = 1, initialZ: number = 1, initialRot: number = 0) {
+    constructor(id: string, initialX: number = 1, initialY: number = 1, initialZ: number = 1, initialRot: number = 0, initialStats: Record<string, number> = {}, attributeSchema: AttributeSchema = {}) {
         this._id = id;
         this._name = null; // Name starts as null until set by client
         this._x = initialX;
-        this._y = initialY; // Y is fixed and won't change
+        this._y = initialY;
         this._z = initialZ;
         this._rot = initialRot;
+        this._stats = new Map(Object.entries(initialStats));
+        this.attributeSchema = attributeSchema;
+        this.attributes = new Map(Object.entries(attributeSchema).map(([key, definition]) => [key, definition.default ?? null]));
+        this.changedAttributes = new Set<string>();
     }
 
     /**
@@ -95,6 +178,14 @@ export class Player {
         return this._y;
     }
 
+    /**
+     * Sets the player's Y coordinate.
+     * @param {number} newY - The new Y coordinate.
+     */
+    public set y(newY: number) {
+        this._y = newY;
+    }
+
     /**
      * Gets the player's current Z coordinate.
      * @returns {number} The player's Z coordinate.
@@ -128,11 +219,156 @@ export class Player {
     }
 
     /**
-     * Returns the player's current state as a PlayerState object.
+     * Gets the player's velocity.
+     * @returns {Velocity | null} The velocity, or null if the world does not track it.
+     */
+    public get velocity(): Velocity | null {
+        return this._velocity;
+    }
+
+    /**
+     * Sets the player's velocity; null leaves it out of the player's state.
+     * @param {Velocity | null} newVelocity - The new velocity.
+     */
+    public set velocity(newVelocity: Velocity | null) {
+        this._velocity = newVelocity;
+    }
+
+    /**
+     * Gets the player's pitch.
+     * @returns {number | null} The pitch in degrees, or null if the world does not use it.
+     */
+    public get pitch(): number | null {
+        return this._pitch;
+    }
+
+    /**
+     * Sets the player's pitch; null leaves it out of the player's state.
+     * @param {number | null} newPitch - The new pitch in degrees.
+     */
+    public set pitch(newPitch: number | null) {
+        this._pitch = newPitch;
+    }
+
+    /**
+     * Gets the player's orientation.
+     * @returns {Quaternion | null} The orientation, or null if the world does not use quaternions.
+     */
+    public get orientation(): Quaternion | null {
+        return this._orientation;
+    }
+
+    /**
+     * Sets the player's orientation; null leaves it out of the player's state.
+     * @param {Quaternion | null} newOrientation - The new orientation, a unit quaternion.
+     */
+    public set orientation(newOrientation: Quaternion | null) {
+        this._orientation = newOrientation;
+    }
+
+    /**
+     * Gets one of the player's stats.
+     * @param {string} key - The stat name.
+     * @returns {number} The stat's value, or 0 if it was never set.
+     */
+    public getStat(key: string): number {
+        return this._stats.get(key) ?? 0;
+    }
+
+    /**
+     * Sets one of the player's stats.
+     * @param {string} key - The stat name.
+     * @param {number} value - The new value.
+     */
+    public setStat(key: string, value: number): void {
+        this._stats.set(key, value);
+    }
+
+    /**
+     * Gets all of the player's stats.
+     * @returns {Record<string, number>} A copy of the stats, by name.
+     */
+    public getStats(): Record<string, number> {
+        return Object.fromEntries(this._stats);
+    }
+
+    /**
+     * Gets one of the player's custom attributes.
+     * @param {string} key - The attribute name.
+     * @returns {AttributeValue | undefined} The attribute's value, or undefined if the schema does not declare it.
+     */
+    public getAttribute(key: string): AttributeValue | undefined {
+        return this.attributes.get(key);
+    }
+
+    /**
+     * Sets one of the player's custom attributes, marking it as changed if the
+     * value differs. A team change also marks the player's 'team' attributes, so
+     * its new teammates are sent them.
+     * @param {string} key - The attribute name.
+     * @param {AttributeValue} value - The new value, of the declared type or null.
+     * @returns {boolean} True if the value was accepted; false if the schema does not declare the attribute or the type is wrong.
+     */
+    public setAttribute(key: string, value: AttributeValue): boolean {
+        const definition = this.attributeSchema[key];
+        if (!definition) {
+            console.warn(`Player ${this._id} has no attribute "${key}".`);
+            return false;
+        }
+        if (value !== null && typeof value !== definition.type) {
+            console.warn(`Attribute "${key}" of player ${this._id} must be a ${definition.type} or null.`);
+            return false;
+        }
+        if (this.attributes.get(key) === value) {
+            return true;
+        }
+        this.attributes.set(key, value);
+        this.changedAttributes.add(key);
+        if (key === TEAM_ATTRIBUTE) {
+            for (const [name, { visibility }] of Object.entries(this.attributeSchema)) {
+                if (visibility === 'team') {
+                    this.changedAttributes.add(name);
+                }
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Gets who is sent one of the player's custom attributes.
+     * @param {string} key - The attribute name.
+     * @returns {AttributeVisibility | null} The visibility, or null if the schema does not declare the attribute.
+     */
+    public getAttributeVisibility(key: string): AttributeVisibility | null {
+        return this.attributeSchema[key]?.visibility ?? null;
+    }
+
+    /**
+     * Gets all of the player's custom attributes.
+     * @returns {Record<string, AttributeValue>} A copy of the attributes, by name.
+     */
+    public getAttributes(): Record<string, AttributeValue> {
+        return Object.fromEntries(this.attributes);
+    }
+
+    /**
+     * Returns the names of the attributes changed since the last call, and starts tracking afresh.
+     * @returns {string[]} The changed attribute names.
+     */
+    public takeChangedAttributes(): string[] {
+        const changed = [...this.changedAttributes];
+        this.changedAttributes.clear();
+        return changed;
+    }
+
+    /**
+     * Returns the player's current state as a PlayerState object. Velocity, pitch
+     * and orientation are only included if they are set; custom attributes never
+     * are, since who may see them depends on the recipient (see `Game.getVisibleAttributes`).
      * @returns {PlayerState} The current state of the player.
      */
     public getState(): PlayerState {
-        return {
+        const state: PlayerState = {
             id: this.id,
             name: this.name,
             x: this.x,
@@ -140,5 +376,20 @@ export class Player {
             z: this.z,
             rot: this.rot
         };
+        if (this._velocity) {
+            state.vx = this._velocity.x;
+            state.vy = this._velocity.y;
+            state.vz = this._velocity.z;
+        }
+        if (this._pitch !== null) {
+            state.pitch = this._pitch;
+        }
+        if (this._orientation) {
+            state.qx = this._orientation.x;
+            state.qy = this._orientation.y;
+            state.qz = this._orientation.z;
+            state.qw = this._orientation.w;
+        }
+        return state;
     }
 }
\ No newline at end of file
@@ -1,16 +1,88 @@
 // Defines the message structures for communication between client and server
-// with configurable serialization (JSON or MessagePack).
+// with configurable serialization (JSON, MessagePack or compact binary).
 import { encode, decode } from '@msgpack/msgpack';
 import { PlayerState } from './player';
+import { RoomInfo } from './room';
+import { ChatLine } from './chat';
+import { EntityState } from './entity';
+import { BinaryEncodingContext, hasBinaryLayout, encodeBinaryServerMessage, isBinaryFrame, decodeBinaryClientMessage } from './binary';
+import { ErrorCode, MessageSchema, ValidationResult, validateClientMessage } from './validation';
+import { serverMetrics } from './metrics';
 
-// Configuration for protocol serialization
+// Configuration for protocol serialization. These pick the server's default
+// format; each client may negotiate its own (see negotiation below).
 export const PROTOCOL_CONFIG = {
     USE_MSGPACK: false, // Set to true to use MessagePack, false for JSON
+    USE_BINARY: false, // Set to true to hand-pack state and move messages (see binary.ts); other messages use MessagePack
 };
 
+/**
+ * Wire format of a connection.
+ */
+export type ProtocolFormat = 'json' | 'msgpack' | 'binary';
+
+export const PROTOCOL_FORMATS: ProtocolFormat[] = ['json', 'msgpack', 'binary'];
+
+// Protocol version spoken by this server, and the versions it still accepts
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS = [1];
+
+const SUBPROTOCOL_PREFIX = 'keystone.v';
+
+/**
+ * Gets the server's default format from PROTOCOL_CONFIG.
+ * @returns {ProtocolFormat} The default format.
+ */
+export function getDefaultFormat(): ProtocolFormat {
+    if (PROTOCOL_CONFIG.USE_BINARY) {
+        return 'binary';
+    }
+    return PROTOCOL_CONFIG.USE_MSGPACK ? 'msgpack' : 'json';
+}
+
+/**
+ * Builds the WebSocket subprotocol name for a version and format, e.g. `keystone.v1.msgpack`.
+ * @param {number} version - The protocol version.
+ * @param {ProtocolFormat} format - The wire format.
+ * @returns {string} The subprotocol name.
+ */
+export function formatSubprotocol(version: number, format: ProtocolFormat): string {
+    return `${SUBPROTOCOL_PREFIX}${version}.${format}`;
+}
+
+/**
+ * Parses a WebSocket subprotocol name offered by a client.
+ * @param {string} subprotocol - The offered subprotocol, e.g. `keystone.v1.json`.
+ * @returns {{ version: number; format: ProtocolFormat } | null} The version and format, or null if not a supported Keystone subprotocol.
+ */
+export function parseSubprotocol(subprotocol: string): { version: number; format: ProtocolFormat } | null {
+    if (!subprotocol.startsWith(SUBPROTOCOL_PREFIX)) {
+        return null;
+    }
+    const [versionPart, format] = subprotocol.slice(SUBPROTOCOL_PREFIX.length).split('.');
+    const version = Number(versionPart);
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(version) || !PROTOCOL_FORMATS.includes(format as ProtocolFormat)) {
+        return null;
+    }
+    return { version, format: format as ProtocolFormat };
+}
+
+/**
+ * Guesses the format of a client frame from its first byte, for decoding a
+ * `hello` before the connection's format is known.
+ * @param {Uint8Array} data - The frame.
+ * @returns {ProtocolFormat} The likely format.
+ */
+export function detectClientFormat(data: Uint8Array): ProtocolFormat {
+    if (data.length > 0 && (data[0] === 0x7b || data[0] === 0x20 || data[0] === 0x0a)) {
+        return 'json'; // '{' or leading whitespace
+    }
+    return isBinaryFrame(data) ? 'binary' : 'msgpack';
+}
+
 // Timecode utilities for space-efficient timestamps
 const SERVER_START_TIME = Date.now();
-const TIMECODE_WRAP = 2**24; // ~16.7M milliseconds (~4.6 hours), fits in 3 bytes
+export const TIMECODE_WRAP = 2**24; // ~16.7M milliseconds (~4.6 hours), fits in 3 bytes
 
 /**
  * Gets a space-efficient wraparound timecode.
@@ -52,11 +124,22 @@ export function getMessageAge(timecode: number): number {
 }
 
 // Rest of the interfaces remain the same...
+/**
+ * Moves the sender's player. The optional fields only take effect in worlds that
+ * enable them: `y` with vertical movement, `pitch` with `pitch_yaw` rotation and
+ * the quaternion (all four components or none) with `quaternion` rotation.
+ */
 export interface MoveMessage {
     type: 'move';
     x: number;
     z: number;
     rot: number;
+    y?: number;
+    pitch?: number; // degrees, positive looking up
+    qx?: number;
+    qy?: number;
+    qz?: number;
+    qw?: number;
     t: number; // wraparound timecode
 }
 
@@ -66,11 +149,171 @@ export interface SetNameMessage {
     t: number; // wraparound timecode
 }
 
-export type ClientMessage = MoveMessage | SetNameMessage;
+/**
+ * Optional first message of a connection that did not pick a format through
+ * the WebSocket subprotocol header. May be sent in JSON or MessagePack.
+ */
+export interface HelloMessage {
+    type: 'hello';
+    format: ProtocolFormat;
+    version: number;
+    resumeToken?: string; // token from a previous `session` message, to reclaim that player
+    t: number; // wraparound timecode
+}
+
+export interface ResyncRequestMessage {
+    type: 'resync';
+    lastSeq?: number; // last sequence number the client applied, for logging
+    t: number; // wraparound timecode
+}
+
+export interface JoinRoomMessage {
+    type: 'join_room';
+    roomId: string; // created if it does not exist yet
+    t: number; // wraparound timecode
+}
+
+export interface LeaveRoomMessage {
+    type: 'leave_room';
+    t: number; // wraparound timecode
+}
+
+export interface ListRoomsMessage {
+    type: 'list_rooms';
+    t: number; // wraparound timecode
+}
+
+/**
+ * Chat channels: everyone in the room, one player by name, or the players
+ * within the room's proximity radius of the sender.
+ */
+export type ChatChannel = 'global' | 'whisper' | 'proximity';
+
+export interface ChatMessage {
+    type: 'chat';
+    channel: ChatChannel;
+    text: string;
+    to?: string; // recipient's display name, required for whispers
+    t: number; // wraparound timecode
+}
+
+/**
+ * Stops delivering chat from a player to this connection. Mutes last until
+ * `unmute` or the connection closes.
+ */
+export interface MuteMessage {
+    type: 'mute';
+    playerId: string;
+    t: number; // wraparound timecode
+}
+
+export interface UnmuteMessage {
+    type: 'unmute';
+    playerId: string;
+    t: number; // wraparound timecode
+}
+
+/**
+ * Answer to a server `ping`. `t` must be the client's own timecode when
+ * answering, so the server can estimate the client's clock offset.
+ */
+export interface PongMessage {
+    type: 'pong';
+    id: number; // the ping's ID
+    t: number; // wraparound timecode
+}
 
+/**
+ * A client message of a type added by the embedding game (see `KeystoneServer.handle`)
+ * rather than built into the protocol. Its fields were checked against the type's schema.
+ */
+export interface CustomClientMessage {
+    type: string;
+    t: number; // wraparound timecode
+    [field: string]: unknown;
+}
+
+export type ClientMessage = HelloMessage | MoveMessage | SetNameMessage | ResyncRequestMessage | JoinRoomMessage | LeaveRoomMessage | ListRoomsMessage | ChatMessage | MuteMessage | UnmuteMessage | PongMessage;
+
+/**
+ * Full snapshot of every player and entity in the client's area of interest (a keyframe).
+ * Clients replace their local state with this and continue applying deltas from `seq + 1`.
+ */
 export interface StateUpdateMessage {
     type: 'state';
+    seq: number; // sequence number shared with delta messages
+    tick: number; // room tick the state was taken on
+    players: PlayerState[];
+    entities: EntityState[];
+    t: number; // wraparound timecode
+}
+
+/**
+ * Only the visible players and entities whose state changed since the previous state/delta message.
+ * Players and entities entering or leaving the area of interest are announced separately.
+ * A gap in `seq` means the client missed an update and should send `resync`.
+ */
+export interface DeltaUpdateMessage {
+    type: 'delta';
+    seq: number; // always previous seq + 1
+    tick: number; // room tick the changes were taken on; may skip ticks when sends are throttled
     players: PlayerState[];
+    entities?: EntityState[]; // omitted when no visible entity changed
+    t: number; // wraparound timecode
+}
+
+/**
+ * Players that moved into the client's area of interest and should be spawned.
+ * Sent after any leave and before the delta of the same tick.
+ */
+export interface PlayerEnterMessage {
+    type: 'player_enter';
+    players: PlayerState[];
+    t: number; // wraparound timecode
+}
+
+/**
+ * Players that moved out of the client's area of interest (or left the game)
+ * and should be despawned.
+ */
+export interface PlayerLeaveMessage {
+    type: 'player_leave';
+    playerIds: string[];
+    t: number; // wraparound timecode
+}
+
+/**
+ * Entities that spawned in or moved into the client's area of interest.
+ * Sent after any despawn and before the delta of the same tick.
+ */
+export interface EntitySpawnMessage {
+    type: 'entity_spawn';
+    entities: EntityState[];
+    t: number; // wraparound timecode
+}
+
+/**
+ * Entities that were destroyed or moved out of the client's area of interest.
+ */
+export interface EntityDespawnMessage {
+    type: 'entity_despawn';
+    entityIds: string[];
+    t: number; // wraparound timecode
+}
+
+/**
+ * A player's connection dropped; it stays in the world, frozen, until it
+ * resumes (`player_resumed`) or its grace period ends (`disconnected`).
+ */
+export interface PlayerSuspendedMessage {
+    type: 'player_suspended';
+    playerId: string;
+    t: number; // wraparound timecode
+}
+
+export interface PlayerResumedMessage {
+    type: 'player_resumed';
+    playerId: string;
     t: number; // wraparound timecode
 }
 
@@ -97,31 +340,242 @@ export interface NameRejectedMessage {
     t: number; // wraparound timecode
 }
 
-export type ServerMessage = StateUpdateMessage | PlayerConnectedMessage | PlayerDisconnectedMessage | NameAcceptedMessage | NameRejectedMessage;
+/**
+ * Sent when the server clamped or rejected a move; the client should snap
+ * (or reconcile) its own player to this authoritative position.
+ */
+export interface PositionCorrectionMessage {
+    type: 'position_correction';
+    x: number;
+    z: number;
+    rot: number;
+    y?: number; // only in worlds with vertical movement
+    pitch?: number; // only in `pitch_yaw` worlds
+    qx?: number; // qx to qw only in `quaternion` worlds
+    qy?: number;
+    qz?: number;
+    qw?: number;
+    t: number; // wraparound timecode
+}
+
+/**
+ * Confirms the format and version the server will use for this connection.
+ * Sent in the negotiated format.
+ */
+export interface WelcomeMessage {
+    type: 'welcome';
+    format: ProtocolFormat;
+    version: number;
+    t: number; // wraparound timecode
+}
+
+/**
+ * First message of every session: the player ID the connection controls.
+ */
+export interface IdAssignmentMessage {
+    type: 'id_assignment';
+    playerId: string;
+    t: number; // wraparound timecode
+}
+
+/**
+ * Sent right after `id_assignment`. Present `resumeToken` when reconnecting
+ * (as `?resume=` in the URL or in `hello`) to reclaim the same player.
+ */
+export interface SessionMessage {
+    type: 'session';
+    resumeToken: string;
+    resumed: boolean; // true if this connection reclaimed a suspended player
+    t: number; // wraparound timecode
+}
+
+export interface HelloRejectedMessage {
+    type: 'hello_rejected';
+    reason: string;
+    supportedVersions: number[];
+    t: number; // wraparound timecode
+}
+
+/**
+ * Sent when a client message is rejected by validation.
+ */
+export interface ErrorMessage {
+    type: 'error';
+    code: ErrorCode;
+    message: string;
+    t: number; // wraparound timecode
+}
+
+export interface RoomJoinedMessage {
+    type: 'room_joined';
+    roomId: string;
+    t: number; // wraparound timecode
+}
+
+export interface RoomJoinRejectedMessage {
+    type: 'room_join_rejected';
+    roomId: string;
+    reason: string;
+    t: number; // wraparound timecode
+}
+
+export interface RoomLeftMessage {
+    type: 'room_left';
+    roomId: string;
+    t: number; // wraparound timecode
+}
+
+export interface RoomListMessage {
+    type: 'room_list';
+    rooms: RoomInfo[];
+    t: number; // wraparound timecode
+}
+
+/**
+ * A chat line from another player (or the sender's own line echoed back).
+ */
+export interface ChatLineMessage extends ChatLine {
+    type: 'chat_message';
+    t: number; // wraparound timecode
+}
 
-export function encodeServerMessage(message: ServerMessage): Uint8Array | string {
+/**
+ * Recent global chat of a room, sent after joining it. Lines are oldest first.
+ */
+export interface ChatHistoryMessage {
+    type: 'chat_history';
+    lines: ChatLine[];
+    t: number; // wraparound timecode
+}
+
+export interface ChatRejectedMessage {
+    type: 'chat_rejected';
+    reason: string;
+    t: number; // wraparound timecode
+}
+
+/**
+ * Sent periodically; clients should answer at once with a `pong` carrying the same ID.
+ */
+export interface PingMessage {
+    type: 'ping';
+    id: number;
+    rtt: number | null; // the server's current round-trip estimate for this client (ms), null before the first pong
+    t: number; // wraparound timecode
+}
+
+/**
+ * Sent to every connection before the server shuts down. Clients should reconnect
+ * after `reconnectIn` ms with their resume token; their profile will be waiting.
+ */
+export interface ServerShutdownMessage {
+    type: 'server_shutdown';
+    reason: string;
+    reconnectIn: number; // suggested delay before reconnecting (ms)
+    reconnectUrl: string | null; // where to reconnect, or null for the same address
+    t: number; // wraparound timecode
+}
+
+/**
+ * Sent right before an operator closes the connection. Clients should not
+ * reconnect automatically.
+ */
+export interface KickedMessage {
+    type: 'kicked';
+    reason: string;
+    t: number; // wraparound timecode
+}
+
+/**
+ * A server-wide notice from an operator, shown to every connected player.
+ */
+export interface AnnouncementMessage {
+    type: 'announcement';
+    text: string;
+    t: number; // wraparound timecode
+}
+
+/**
+ * A server message of a type registered by the embedding game (see `MessageRegistry.defineServerMessage`).
+ */
+export interface CustomServerMessage {
+    type: string;
+    t?: number; // wraparound timecode, stamped when encoded if absent
+    [field: string]: unknown;
+}
+
+export type ServerMessage = IdAssignmentMessage | StateUpdateMessage | DeltaUpdateMessage | PlayerEnterMessage | PlayerLeaveMessage | PlayerSuspendedMessage | PlayerResumedMessage | PlayerConnectedMessage | PlayerDisconnectedMessage | NameAcceptedMessage | NameRejectedMessage | PositionCorrectionMessage | WelcomeMessage | SessionMessage | HelloRejectedMessage | ErrorMessage | RoomJoinedMessage | RoomJoinRejectedMessage | RoomLeftMessage | RoomListMessage | ChatLineMessage | ChatHistoryMessage | ChatRejectedMessage | PingMessage | EntitySpawnMessage | EntityDespawnMessage | ServerShutdownMessage | KickedMessage | AnnouncementMessage;
+
+/**
+ * Encodes a value as MessagePack, as the msgpack and binary formats do.
+ * @param {unknown} value - The value to encode.
+ * @returns {Uint8Array} The encoded value.
+ */
+export function encodeMsgpack(value: unknown): Uint8Array {
+    return encode(value);
+}
+
+/**
+ * Decodes a MessagePack value, as the msgpack and binary formats do.
+ * @param {Uint8Array} data - The encoded value.
+ * @returns {unknown} The decoded value.
+ * @throws {Error} If the data is not valid MessagePack.
+ */
+export function decodeMsgpack(data: Uint8Array): unknown {
+    return decode(data);
+}
+
+/**
+ * Encodes a server message in the given format. Custom messages are encoded like
+ * the built-in ones without a hand-packed layout: JSON, or MessagePack in the binary formats.
+ * @param {ServerMessage | CustomServerMessage} message - The message to encode.
+ * @param {ProtocolFormat} format - The receiving connection's format (optional, the server default if not provided).
+ * @param {BinaryEncodingContext} context - The receiving client's binary context, so player IDs and names already sent are omitted (optional, binary format only).
+ * @returns {Uint8Array | string} The encoded message.
+ */
+export function encodeServerMessage(message: ServerMessage | CustomServerMessage, format: ProtocolFormat = getDefaultFormat(), context?: BinaryEncodingContext): Uint8Array | string {
+    const started = performance.now();
     const messageWithTimecode = {
         ...message,
         t: message.t || getTimecode()
     };
 
-    if (PROTOCOL_CONFIG.USE_MSGPACK) {
-        return encode(messageWithTimecode);
+    let encoded: Uint8Array | string;
+    if (format === 'binary') {
+        encoded = hasBinaryLayout(messageWithTimecode)
+            ? encodeBinaryServerMessage(messageWithTimecode, context)
+            : encodeMsgpack(messageWithTimecode);
+    } else if (format === 'msgpack') {
+        encoded = encodeMsgpack(messageWithTimecode);
     } else {
-        return JSON.stringify(messageWithTimecode);
+        encoded = JSON.stringify(messageWithTimecode);
     }
+    serverMetrics.encodeDuration.observe((performance.now() - started) / 1000);
+    return encoded;
 }
 
-export function decodeClientMessage(data: Uint8Array | string): ClientMessage | null {
+/**
+ * Decodes a client message in the given format and validates it against its schema.
+ * @param {Uint8Array | string} data - The raw frame.
+ * @param {ProtocolFormat} format - The sending connection's format (optional, the server default if not provided).
+ * @param {ReadonlyMap<string, MessageSchema>} customSchemas - Schemas of message types added by the embedding game (optional).
+ * @returns {ValidationResult} The typed message, or an error code describing why it was rejected.
+ */
+export function decodeClientMessage(data: Uint8Array | string, format: ProtocolFormat = getDefaultFormat(), customSchemas?: ReadonlyMap<string, MessageSchema>): ValidationResult {
     try {
         let decoded: any;
         
-        if (PROTOCOL_CONFIG.USE_MSGPACK) {
+        if (format === 'binary') {
+            if (typeof data === 'string') {
+                return { ok: false, code: 'malformed', detail: 'Expected a binary frame' };
+            }
+            // Moves are hand-packed; everything else is MessagePack
+            decoded = isBinaryFrame(data) ? decodeBinaryClientMessage(data) : decodeMsgpack(data);
+        } else if (format === 'msgpack') {
             if (typeof data === 'string') {
-                console.error('Expected Uint8Array for MessagePack decoding, got string');
-                return null;
+                return { ok: false, code: 'malformed', detail: 'Expected a binary frame' };
             }
-            decoded = decode(data);
+            decoded = decodeMsgpack(data);
         } else {
             let jsonString: string;
             if (data instanceof Uint8Array) {
@@ -133,19 +587,18 @@ export function decodeClientMessage(data: Uint8Array | string): ClientMessage |
             decoded = JSON.parse(jsonString);
         }
         
-        if (typeof decoded === 'object' && decoded !== null && 'type' in decoded) {
-            if (!('t' in decoded)) {
-                decoded.t = getTimecode();
-            }
-            return decoded as ClientMessage;
+        // Filled in only after validation, so schemas that require a timecode see it missing
+        const result = validateClientMessage(decoded, customSchemas);
+        if (result.ok && result.message.t === undefined) {
+            result.message.t = getTimecode();
         }
-        return null;
+        return result;
     } catch (error) {
-        console.error('Failed to decode client message:', error);
-        return null;
+        return { ok: false, code: 'malformed', detail: `Could not decode ${format} frame` };
     }
 }
 
-export function setProtocolMode(useMsgpack: boolean): void {
+export function setProtocolMode(useMsgpack: boolean, useBinary: boolean = false): void {
     PROTOCOL_CONFIG.USE_MSGPACK = useMsgpack;
+    PROTOCOL_CONFIG.USE_BINARY = useBinary;
 }
\ No newline at end of file
@@ -0,0 +1,159 @@
+// Flood protection: per-connection token buckets for each client message type
+// and a cap on simultaneous connections from one IP address.
+import { ClientMessage } from './protocol';
+
+/**
+ * Limit for one message type.
+ * @property {number} capacity - Messages that may be sent in a burst.
+ * @property {number} refillPerSecond - Sustained messages per second.
+ */
+export interface RateLimit {
+    capacity: number;
+    refillPerSecond: number;
+}
+
+/**
+ * Limits for every client message type.
+ */
+export type RateLimitConfig = Record<ClientMessage['type'], RateLimit>;
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+    hello: { capacity: 1, refillPerSecond: 0 }, // Only the first hello means anything
+    move: { capacity: 60, refillPerSecond: 60 }, // One per server tick, with a second's worth of burst
+    set_name: { capacity: 3, refillPerSecond: 0.2 },
+    resync: { capacity: 3, refillPerSecond: 1 },
+    join_room: { capacity: 5, refillPerSecond: 0.5 },
+    leave_room: { capacity: 5, refillPerSecond: 0.5 },
+    list_rooms: { capacity: 5, refillPerSecond: 1 },
+    chat: { capacity: 5, refillPerSecond: 1 },
+    mute: { capacity: 10, refillPerSecond: 1 },
+    unmute: { capacity: 10, refillPerSecond: 1 },
+    pong: { capacity: 3, refillPerSecond: 1 }, // The server pings at most once a second
+};
+
+export const DEFAULT_CUSTOM_RATE_LIMIT: RateLimit = { capacity: 20, refillPerSecond: 10 }; // For game-defined message types registered without a limit
+
+/**
+ * A token bucket: holds up to `capacity` tokens, refilled continuously.
+ */
+export class TokenBucket {
+    private readonly capacity: number;
+    private readonly refillPerSecond: number;
+    private tokens: number;
+    private lastRefill: number; // Time of the last refill (ms)
+
+    /**
+     * Creates a new TokenBucket, initially full.
+     * @param {number} capacity - Maximum number of tokens.
+     * @param {number} refillPerSecond - Tokens added per second.
+     */
+    constructor(capacity: number, refillPerSecond: number) {
+        this.capacity = capacity;
+        this.refillPerSecond = refillPerSecond;
+        this.tokens = capacity;
+        this.lastRefill = Date.now();
+    }
+
+    /**
+     * Takes a token if one is available.
+     * @returns {boolean} True if a token was taken, false if the bucket is empty.
+     */
+    public take(): boolean {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+        this.lastRefill = now;
+        if (this.tokens < 1) {
+            return false;
+        }
+        this.tokens -= 1;
+        return true;
+    }
+}
+
+/**
+ * Applies the per-type limits to one connection's messages.
+ */
+export class MessageRateLimiter {
+    private buckets: Map<string, TokenBucket>;
+
+    /**
+     * Creates a new MessageRateLimiter.
+     * @param {Record<string, RateLimit>} limits - Limits for every built-in message type, plus any custom ones.
+     */
+    constructor(limits: RateLimitConfig & Record<string, RateLimit> = DEFAULT_RATE_LIMITS) {
+        this.buckets = new Map<string, TokenBucket>();
+        for (const [type, limit] of Object.entries(limits)) {
+            this.buckets.set(type, new TokenBucket(limit.capacity, limit.refillPerSecond));
+        }
+    }
+
+    /**
+     * Checks whether a message of the given type may be processed now. Types without a limit are always allowed.
+     * @param {string} type - The message type.
+     * @returns {boolean} True if the message is within the limit.
+     */
+    public allow(type: string): boolean {
+        return this.buckets.get(type)?.take() ?? true;
+    }
+}
+
+/**
+ * Counts open connections per IP address.
+ */
+export class ConnectionCounter {
+    private readonly maxPerAddress: number;
+    private counts: Map<string, number>; // Maps IP address to its open connections
+
+    /**
+     * Creates a new ConnectionCounter.
+     * @param {number} maxPerAddress - Connections allowed from one address at once (0 for no limit).
+     */
+    constructor(maxPerAddress: number) {
+        this.maxPerAddress = maxPerAddress;
+        this.counts = new Map<string, number>();
+    }
+
+    /**
+     * Checks whether another connection from an address is allowed.
+     * @param {string} address - The IP address.
+     * @returns {boolean} True if the address is under its limit.
+     */
+    public hasCapacity(address: string): boolean {
+        return this.maxPerAddress <= 0 || (this.counts.get(address) ?? 0) < this.maxPerAddress;
+    }
+
+    /**
+     * Records a new connection from an address if it is under its limit, in one step,
+     * so a slot can be reserved before an asynchronous check without a race.
+     * @param {string} address - The IP address.
+     * @returns {boolean} True if the connection was recorded.
+     */
+    public tryAdd(address: string): boolean {
+        if (!this.hasCapacity(address)) {
+            return false;
+        }
+        this.add(address);
+        return true;
+    }
+
+    /**
+     * Records a new connection from an address.
+     * @param {string} address - The IP address.
+     */
+    public add(address: string): void {
+        this.counts.set(address, (this.counts.get(address) ?? 0) + 1);
+    }
+
+    /**
+     * Records a closed connection from an address.
+     * @param {string} address - The IP address.
+     */
+    public remove(address: string): void {
+        const count = (this.counts.get(address) ?? 0) - 1;
+        if (count > 0) {
+            this.counts.set(address, count);
+        } else {
+            this.counts.delete(address);
+        }
+    }
+}
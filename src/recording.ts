@@ -0,0 +1,275 @@
+// Session recordings: every client message a room receives and the room's full
+// state after every tick, written as length-prefixed MessagePack entries.
+import { createWriteStream, promises as fs, WriteStream } from 'fs';
+import * as path from 'path';
+import { ClientMessage, CustomClientMessage, StateUpdateMessage, encodeMsgpack, decodeMsgpack } from './protocol';
+
+export const RECORDING_VERSION = 2; // 2: states carry the room's tick
+const LENGTH_PREFIX_SIZE = 4; // Each entry is preceded by its length as a big-endian uint32
+const RECORDING_EXTENSION = '.ksr';
+
+/**
+ * Configuration for session recording. Disk use is bounded by `maxFiles` files
+ * of about `maxFileBytes` each.
+ * @property {string} dir - Directory recordings are written to.
+ * @property {string[]} rooms - IDs of the rooms to record; other rooms are not recorded.
+ * @property {number} maxFileBytes - Size after which a recording continues in a new file (bytes).
+ * @property {number} maxFileDuration - Time after which a recording continues in a new file (ms).
+ * @property {number} maxFiles - Number of recordings kept in `dir`; the oldest are deleted beyond it.
+ */
+export interface RecordingConfig {
+    dir: string;
+    rooms: string[];
+    maxFileBytes: number;
+    maxFileDuration: number;
+    maxFiles: number;
+}
+
+export const DEFAULT_RECORDING_CONFIG: RecordingConfig = {
+    dir: 'recordings',
+    rooms: [],
+    maxFileBytes: 64 * 1024 * 1024,
+    maxFileDuration: 60 * 60 * 1000,
+    maxFiles: 50,
+};
+
+/**
+ * First entry of every recording.
+ * @property {number} version - RECORDING_VERSION of the writer.
+ * @property {string} roomId - The recorded room.
+ * @property {number} startedAt - When recording started (ms since the epoch); entry times are relative to it.
+ * @property {number} tickRate - The room's tick rate when recording started (ms).
+ */
+export interface RecordingHeader {
+    kind: 'header';
+    version: number;
+    roomId: string;
+    startedAt: number;
+    tickRate: number;
+}
+
+/**
+ * A decoded client message, as the room received it.
+ */
+export interface RecordedClientMessage {
+    kind: 'client';
+    time: number; // ms since the recording started
+    playerId: string;
+    message: ClientMessage | CustomClientMessage;
+}
+
+/**
+ * Every player and entity in the room after a tick. `seq` counts the recorded
+ * states and `tick` is the room's tick number.
+ */
+export interface RecordedState {
+    kind: 'state';
+    time: number; // ms since the recording started
+    message: StateUpdateMessage;
+}
+
+export type RecordingEntry = RecordedClientMessage | RecordedState;
+
+/**
+ * A recording read back from disk.
+ * @property {RecordingHeader} header - The header.
+ * @property {RecordingEntry[]} entries - Every entry after the header, in time order.
+ * @property {number} duration - Time of the last entry (ms).
+ */
+export interface Recording {
+    header: RecordingHeader;
+    entries: RecordingEntry[];
+    duration: number;
+}
+
+/**
+ * Frames a record: its MessagePack encoding behind a length prefix.
+ */
+function frameEntry(entry: RecordingHeader | RecordingEntry): Buffer {
+    const body = encodeMsgpack(entry);
+    const frame = Buffer.allocUnsafe(LENGTH_PREFIX_SIZE + body.byteLength);
+    frame.writeUInt32BE(body.byteLength, 0);
+    frame.set(body, LENGTH_PREFIX_SIZE);
+    return frame;
+}
+
+/**
+ * Deletes the oldest recordings in a directory beyond the newest `maxFiles`.
+ */
+async function pruneRecordings(dir: string, maxFiles: number): Promise<void> {
+    const names = (await fs.readdir(dir)).filter(name => name.endsWith(RECORDING_EXTENSION));
+    if (names.length <= maxFiles) {
+        return;
+    }
+    const files = await Promise.all(names.map(async name => {
+        const file = path.join(dir, name);
+        return { file, mtime: (await fs.stat(file)).mtimeMs };
+    }));
+    files.sort((a, b) => b.mtime - a.mtime);
+    for (const { file } of files.slice(maxFiles)) {
+        await fs.unlink(file);
+    }
+}
+
+/**
+ * Writes one room's session to files in the recording directory as it happens.
+ * A recording continues in a new file, with its own header, once the current one
+ * reaches `maxFileBytes` or `maxFileDuration`, and the oldest files are deleted
+ * beyond `maxFiles`. Writes are buffered by the stream; a write error is logged
+ * once and recording stops.
+ */
+export class SessionRecorder {
+    private readonly config: RecordingConfig;
+    private readonly roomId: string;
+    private readonly tickRate: number;
+    private currentFile: string | null = null;
+    private stream: WriteStream | null = null;
+    private startedAt = 0; // When the current file was started; entry times are relative to it
+    private bytes = 0; // Bytes written to the current file
+    private parts = 0; // Files written so far, numbered in their names
+    private states = 0; // Recorded states so far, used as their `seq`
+
+    /**
+     * Creates a new SessionRecorder and starts its first file.
+     * @param {string} roomId - The recorded room.
+     * @param {number} tickRate - The room's tick rate (ms).
+     * @param {RecordingConfig} config - Where to record and how much to keep.
+     */
+    constructor(roomId: string, tickRate: number, config: RecordingConfig) {
+        this.config = config;
+        this.roomId = roomId;
+        this.tickRate = tickRate;
+        this.openFile();
+    }
+
+    /**
+     * The file currently being written, or null once recording has stopped.
+     */
+    public get file(): string | null {
+        return this.stream ? this.currentFile : null;
+    }
+
+    /**
+     * Records a client message the room received.
+     * @param {string} playerId - The sender.
+     * @param {ClientMessage | CustomClientMessage} message - The decoded message.
+     */
+    public recordClientMessage(playerId: string, message: ClientMessage | CustomClientMessage): void {
+        this.rotateIfFull();
+        this.write({ kind: 'client', time: Date.now() - this.startedAt, playerId, message });
+    }
+
+    /**
+     * Records the room's state after a tick.
+     * @param {StateUpdateMessage['players']} players - Every player in the room.
+     * @param {StateUpdateMessage['entities']} entities - Every entity in the room.
+     * @param {number} tick - The room's tick number.
+     * @param {number} t - The tick's timecode.
+     */
+    public recordState(players: StateUpdateMessage['players'], entities: StateUpdateMessage['entities'], tick: number, t: number): void {
+        this.rotateIfFull();
+        this.states++;
+        this.write({ kind: 'state', time: Date.now() - this.startedAt, message: { type: 'state', seq: this.states, tick, players, entities, t } });
+    }
+
+    /**
+     * Finishes the recording.
+     * @returns {Promise<void>} Resolves once everything recorded has been written.
+     */
+    public close(): Promise<void> {
+        const stream = this.stream;
+        this.stream = null;
+        if (!stream) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => stream.end(() => resolve()));
+    }
+
+    /**
+     * Starts a new file, writes its header and deletes recordings beyond `maxFiles`.
+     */
+    private openFile(): void {
+        this.parts++;
+        this.startedAt = Date.now();
+        this.bytes = 0;
+        // Rooms can be removed and created again, so every file gets its own name
+        const timestamp = new Date(this.startedAt).toISOString().replace(/[:.]/g, '-');
+        const file = path.join(this.config.dir, `${this.roomId}-${timestamp}-${this.parts}${RECORDING_EXTENSION}`);
+        const stream = createWriteStream(file);
+        stream.on('error', error => {
+            console.error(`Recording to ${file} failed; recording stopped:`, error);
+            if (this.stream === stream) {
+                this.stream = null;
+            }
+        });
+        this.currentFile = file;
+        this.stream = stream;
+        this.write({ kind: 'header', version: RECORDING_VERSION, roomId: this.roomId, startedAt: this.startedAt, tickRate: this.tickRate });
+        // Pruned once the new file exists, so it counts towards maxFiles
+        stream.once('open', () => {
+            pruneRecordings(this.config.dir, this.config.maxFiles).catch(error => {
+                console.error(`Failed to delete old recordings in ${this.config.dir}:`, error);
+            });
+        });
+    }
+
+    /**
+     * Moves on to a new file if the current one has reached its size or duration cap.
+     */
+    private rotateIfFull(): void {
+        if (!this.stream) {
+            return;
+        }
+        if (this.bytes < this.config.maxFileBytes && Date.now() - this.startedAt < this.config.maxFileDuration) {
+            return;
+        }
+        this.stream.end();
+        this.openFile();
+    }
+
+    /**
+     * Appends an entry if recording has not stopped.
+     */
+    private write(entry: RecordingHeader | RecordingEntry): void {
+        if (!this.stream) {
+            return;
+        }
+        const frame = frameEntry(entry);
+        this.stream.write(frame);
+        this.bytes += frame.length;
+    }
+}
+
+/**
+ * Reads a recording. A truncated last entry, as left by a crash, is dropped with a warning.
+ * @param {string} file - The recording's path.
+ * @returns {Promise<Recording>} The recording.
+ * @throws {Error} If the file cannot be read, does not start with a header or has an unsupported version.
+ */
+export async function readRecording(file: string): Promise<Recording> {
+    const data = await fs.readFile(file);
+    const records: unknown[] = [];
+    let offset = 0;
+    while (offset + LENGTH_PREFIX_SIZE <= data.length) {
+        const length = data.readUInt32BE(offset);
+        const end = offset + LENGTH_PREFIX_SIZE + length;
+        if (end > data.length) {
+            break;
+        }
+        records.push(decodeMsgpack(data.subarray(offset + LENGTH_PREFIX_SIZE, end)));
+        offset = end;
+    }
+    if (offset < data.length) {
+        console.warn(`Recording ${file} ends in a truncated entry; ignoring its last ${data.length - offset} bytes.`);
+    }
+
+    const header = records.shift() as RecordingHeader | undefined;
+    if (!header || header.kind !== 'header') {
+        throw new Error(`${file} is not a Keystone recording.`);
+    }
+    if (header.version !== RECORDING_VERSION) {
+        throw new Error(`Recording ${file} has unsupported version ${header.version}.`);
+    }
+    const entries = records as RecordingEntry[];
+    return { header, entries, duration: entries.length > 0 ? entries[entries.length - 1].time : 0 };
+}
@@ -0,0 +1,222 @@
+// Game-defined message types: their schemas, handlers and rate limits, and the
+// generator that turns them into TypeScript declarations for clients.
+import { CustomClientMessage, CustomServerMessage, ServerMessage } from './protocol';
+import { CLIENT_MESSAGE_SCHEMAS, FieldRule, MessageSchema, TIMECODE_RULE, checkSchema } from './validation';
+import { RateLimit, DEFAULT_CUSTOM_RATE_LIMIT } from './ratelimit';
+import { CustomWebSocket, Room } from './room';
+
+/**
+ * Handles a client message of a registered type.
+ * @param {CustomClientMessage} message - The message, already checked against the type's schema.
+ * @param {CustomWebSocket} client - The sending connection; `client.id` is the player's ID.
+ * @param {Room | undefined} room - The sender's room, or undefined if it is in none.
+ */
+export type CustomMessageHandler = (message: CustomClientMessage, client: CustomWebSocket, room: Room | undefined) => void;
+
+// Every built-in server message type, so registered types cannot shadow one
+const BUILT_IN_SERVER_TYPES: Record<ServerMessage['type'], true> = {
+    id_assignment: true,
+    state: true,
+    delta: true,
+    player_enter: true,
+    player_leave: true,
+    player_suspended: true,
+    player_resumed: true,
+    connected: true,
+    disconnected: true,
+    name_accepted: true,
+    name_rejected: true,
+    position_correction: true,
+    welcome: true,
+    session: true,
+    hello_rejected: true,
+    error: true,
+    room_joined: true,
+    room_join_rejected: true,
+    room_left: true,
+    room_list: true,
+    chat_message: true,
+    chat_history: true,
+    chat_rejected: true,
+    ping: true,
+    entity_spawn: true,
+    entity_despawn: true,
+    server_shutdown: true,
+    kicked: true,
+    announcement: true,
+};
+
+const MESSAGE_TYPE_PATTERN = /^[a-z][a-z0-9_]*$/; // Also keeps generated type names valid identifiers
+
+/**
+ * Builds the name of a generated interface from a message type, e.g. `fire_weapon` -> `FireWeaponMessage`.
+ * A type defined in both directions gets the direction in its name, e.g. `EmoteClientMessage`.
+ */
+function getInterfaceName(type: string, direction: 'Client' | 'Server', inBothDirections: boolean): string {
+    return type.split('_').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('') + (inBothDirections ? direction : '') + 'Message';
+}
+
+/**
+ * Gets the TypeScript type of a field rule.
+ */
+function getFieldType(rule: FieldRule): string {
+    switch (rule.type) {
+        case 'number':
+            return 'number';
+        case 'string':
+            return 'string';
+        case 'boolean':
+            return 'boolean';
+        case 'enum':
+            return rule.values.map(value => JSON.stringify(value)).join(' | ');
+    }
+}
+
+/**
+ * Writes the declaration of one message interface.
+ * @param {boolean} timecodeOptional - Whether `t` may be left out (client messages) or is always present (server messages).
+ */
+function declareMessage(name: string, type: string, schema: MessageSchema, timecodeOptional: boolean): string {
+    const lines = [`export interface ${name} {`, `    type: ${JSON.stringify(type)};`];
+    for (const [field, rule] of Object.entries(schema)) {
+        lines.push(`    ${field}${rule.optional ? '?' : ''}: ${getFieldType(rule)};`);
+    }
+    lines.push(`    t${timecodeOptional ? '?' : ''}: number; // wraparound timecode`, '}');
+    return lines.join('\n');
+}
+
+/**
+ * Writes a union of generated interfaces, or `never` if there are none.
+ */
+function declareUnion(name: string, members: string[]): string {
+    return `export type ${name} = ${members.length > 0 ? members.join(' | ') : 'never'};`;
+}
+
+/**
+ * The message types a game adds to the protocol. Client types come with a schema
+ * that every incoming message is checked against, a handler and a rate limit;
+ * server types come with a schema that every outgoing message is checked against.
+ * Registered messages are encoded and decoded in every format, like the built-in ones.
+ */
+export class MessageRegistry {
+    private clientTypes: Map<string, { handler: CustomMessageHandler; rateLimit: RateLimit }>;
+    private clientSchemas: Map<string, MessageSchema>; // Kept apart from the handlers so it can be handed to the decoder as is
+    private serverSchemas: Map<string, MessageSchema>;
+
+    /**
+     * Creates a new, empty MessageRegistry.
+     */
+    constructor() {
+        this.clientTypes = new Map<string, { handler: CustomMessageHandler; rateLimit: RateLimit }>();
+        this.clientSchemas = new Map<string, MessageSchema>();
+        this.serverSchemas = new Map<string, MessageSchema>();
+    }
+
+    /**
+     * Checks that a type name is well-formed and not taken in its direction.
+     * @throws {Error} If it is not.
+     */
+    private checkType(type: string, taken: boolean): void {
+        if (!MESSAGE_TYPE_PATTERN.test(type)) {
+            throw new Error(`Message type ${JSON.stringify(type)} must be lower snake_case.`);
+        }
+        if (taken) {
+            throw new Error(`Message type ${type} is already defined.`);
+        }
+    }
+
+    /**
+     * Adds a client message type. Messages of the type are checked against the
+     * schema (plus the optional `t` timecode every message may carry), rate-limited
+     * per connection and passed to the handler.
+     * @param {string} type - The message type, e.g. 'fire_weapon'. Built-in types cannot be taken over.
+     * @param {MessageSchema} schema - Rules for the message's fields other than `type` and `t`.
+     * @param {CustomMessageHandler} handler - Called for every valid message of the type.
+     * @param {RateLimit} rateLimit - Per-connection limit for the type (optional, DEFAULT_CUSTOM_RATE_LIMIT if not provided).
+     * @throws {Error} If the type is malformed, built in or already defined.
+     */
+    public defineClientMessage(type: string, schema: MessageSchema, handler: CustomMessageHandler, rateLimit: RateLimit = DEFAULT_CUSTOM_RATE_LIMIT): void {
+        this.checkType(type, Object.prototype.hasOwnProperty.call(CLIENT_MESSAGE_SCHEMAS, type) || this.clientTypes.has(type));
+        this.clientTypes.set(type, { handler, rateLimit });
+        this.clientSchemas.set(type, schema);
+    }
+
+    /**
+     * Adds a server message type that can then be sent with `KeystoneServer.sendToPlayer`.
+     * @param {string} type - The message type, e.g. 'score_changed'. Built-in types cannot be taken over.
+     * @param {MessageSchema} schema - Rules for the message's fields other than `type` and `t`.
+     * @throws {Error} If the type is malformed, built in or already defined.
+     */
+    public defineServerMessage(type: string, schema: MessageSchema): void {
+        this.checkType(type, Object.prototype.hasOwnProperty.call(BUILT_IN_SERVER_TYPES, type) || this.serverSchemas.has(type));
+        this.serverSchemas.set(type, schema);
+    }
+
+    /**
+     * Gets the schemas of the client types, for `decodeClientMessage`.
+     * @returns {ReadonlyMap<string, MessageSchema>} The schemas by message type.
+     */
+    public getClientSchemas(): ReadonlyMap<string, MessageSchema> {
+        return this.clientSchemas;
+    }
+
+    /**
+     * Gets the per-connection rate limits of the client types.
+     * @returns {Record<string, RateLimit>} The limits by message type.
+     */
+    public getRateLimits(): Record<string, RateLimit> {
+        const limits: Record<string, RateLimit> = {};
+        this.clientTypes.forEach((definition, type) => limits[type] = definition.rateLimit);
+        return limits;
+    }
+
+    /**
+     * Gets the handler of a client type.
+     * @param {string} type - The message type.
+     * @returns {CustomMessageHandler | undefined} The handler, or undefined if the type is not defined.
+     */
+    public getHandler(type: string): CustomMessageHandler | undefined {
+        return this.clientTypes.get(type)?.handler;
+    }
+
+    /**
+     * Checks an outgoing message against the schema of its server type. Built-in
+     * messages are typed at compile time and always pass.
+     * @param {ServerMessage | CustomServerMessage} message - The message.
+     * @returns {string | null} A description of the problem, or null if the message may be sent.
+     */
+    public checkServerMessage(message: ServerMessage | CustomServerMessage): string | null {
+        if (Object.prototype.hasOwnProperty.call(BUILT_IN_SERVER_TYPES, message.type)) {
+            return null;
+        }
+        const schema = this.serverSchemas.get(message.type);
+        if (!schema) {
+            return `Unknown server message type: ${message.type}`;
+        }
+        const failure = checkSchema(message as CustomServerMessage, { ...schema, t: TIMECODE_RULE });
+        return failure && !failure.ok ? failure.detail : null;
+    }
+
+    /**
+     * Writes TypeScript declarations of every defined type for use in clients:
+     * one interface per type plus the `GameClientMessage` and `GameServerMessage` unions.
+     * @returns {string} The source of a `.ts` module.
+     */
+    public generateTypes(): string {
+        const sections = ['// Generated from the registered Keystone message types. Do not edit.'];
+        const clientNames: string[] = [];
+        const serverNames: string[] = [];
+        this.clientSchemas.forEach((schema, type) => {
+            const name = getInterfaceName(type, 'Client', this.serverSchemas.has(type));
+            clientNames.push(name);
+            sections.push(declareMessage(name, type, schema, true));
+        });
+        this.serverSchemas.forEach((schema, type) => {
+            const name = getInterfaceName(type, 'Server', this.clientSchemas.has(type));
+            serverNames.push(name);
+            sections.push(declareMessage(name, type, schema, false));
+        });
+        sections.push(declareUnion('GameClientMessage', clientNames), declareUnion('GameServerMessage', serverNames));
+        return sections.join('\n\n') + '\n';
+    }
+}
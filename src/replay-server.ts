@@ -0,0 +1,37 @@
+// Entry point: serves a session recording from environment variables until SIGTERM/SIGINT.
+import { PROTOCOL_FORMATS, ProtocolFormat } from './protocol';
+import { ReplayServer, DEFAULT_REPLAY_CONFIG, MIN_REPLAY_SPEED, MAX_REPLAY_SPEED } from './replay';
+
+const REPLAY_FILE = process.env.REPLAY_FILE; // Recording to serve, as written to RECORDING_DIR by the game server
+const PORT = process.env.PORT ? parseInt(process.env.PORT) : DEFAULT_REPLAY_CONFIG.port;
+const PROTOCOL_MODE = (process.env.PROTOCOL_MODE ?? 'json') as ProtocolFormat; // Default format for clients that do not negotiate: 'json', 'msgpack' or 'binary'
+const REPLAY_SPEED = process.env.REPLAY_SPEED ? parseFloat(process.env.REPLAY_SPEED) : 1; // Playback speed clients start at
+const MAX_FRAME_SIZE = process.env.MAX_FRAME_SIZE ? parseInt(process.env.MAX_FRAME_SIZE) : DEFAULT_REPLAY_CONFIG.maxFrameSize; // Larger frames close the connection with 1009 (bytes)
+
+if (!REPLAY_FILE) {
+    throw new Error('REPLAY_FILE must name a recording.');
+}
+if (!PROTOCOL_FORMATS.includes(PROTOCOL_MODE)) {
+    throw new Error(`PROTOCOL_MODE must be one of ${PROTOCOL_FORMATS.join(', ')}.`);
+}
+if (!(REPLAY_SPEED >= MIN_REPLAY_SPEED && REPLAY_SPEED <= MAX_REPLAY_SPEED)) {
+    throw new Error(`REPLAY_SPEED must be between ${MIN_REPLAY_SPEED} and ${MAX_REPLAY_SPEED}.`);
+}
+
+const server = new ReplayServer(REPLAY_FILE, { port: PORT, protocolMode: PROTOCOL_MODE, speed: REPLAY_SPEED, maxFrameSize: MAX_FRAME_SIZE });
+
+server.start().catch(error => {
+    console.error('Failed to start the replay server:', error);
+    process.exit(1);
+});
+
+/**
+ * Stops the server and exits.
+ */
+async function shutdown(): Promise<void> {
+    await server.stop();
+    process.exit(0);
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
@@ -0,0 +1,450 @@
+// Replays a recorded session to WebSocket clients as if it were live, with
+// pause, seek and playback-speed controls.
+import { createServer, Server as HttpServer } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import { encodeServerMessage, decodeClientMessage, parseSubprotocol, detectClientFormat, PROTOCOL_FORMATS, SUPPORTED_PROTOCOL_VERSIONS, ProtocolFormat, ServerMessage, CustomServerMessage, StateUpdateMessage, IdAssignmentMessage, RoomJoinedMessage, WelcomeMessage, ErrorMessage } from './protocol';
+import { BinaryEncodingContext, createBinaryEncodingContext, playerHandles } from './binary';
+import { MessageSchema } from './validation';
+import { Recording, RecordingEntry, readRecording } from './recording';
+import { selectSubprotocol, listenOnPort, closeHttpServer } from './keystone';
+
+export const MIN_REPLAY_SPEED = 0.1;
+export const MAX_REPLAY_SPEED = 16;
+
+/**
+ * Controls a replay client may send besides the built-in messages, checked like
+ * game-defined message types:
+ * - `replay_pause` and `replay_resume` stop and continue playback; resuming at the end starts over.
+ * - `replay_seek` jumps to `time` (ms into the recording) and sends the state recorded at or before it.
+ * - `replay_speed` sets the playback speed, e.g. 2 for twice as fast.
+ *
+ * The server answers every control with a `replay_status` message
+ * ({ time, duration, speed, paused, ended }) and forwards recorded client
+ * messages as `replay_input` ({ playerId, input }).
+ */
+export const REPLAY_CONTROL_SCHEMAS: ReadonlyMap<string, MessageSchema> = new Map<string, MessageSchema>([
+    ['replay_pause', {}],
+    ['replay_resume', {}],
+    ['replay_seek', { time: { type: 'number', min: 0, max: 2 ** 32 - 1 } }],
+    ['replay_speed', { speed: { type: 'number', min: MIN_REPLAY_SPEED, max: MAX_REPLAY_SPEED } }],
+]);
+
+/**
+ * Settings for a ReplayServer.
+ * @property {number} port - Port to listen on; ignored when `server` is given.
+ * @property {HttpServer | null} server - An existing HTTP server to accept WebSocket upgrades on, or null to listen on `port`.
+ * @property {ProtocolFormat} protocolMode - Format for clients that do not negotiate one.
+ * @property {number} helloTimeout - How long to wait for a `hello` before using `protocolMode` (ms).
+ * @property {number} speed - Playback speed every client starts at.
+ * @property {number} maxFrameSize - Larger frames close the connection with 1009 (bytes).
+ */
+export interface ReplayServerConfig {
+    port: number;
+    server: HttpServer | null;
+    protocolMode: ProtocolFormat;
+    helloTimeout: number;
+    speed: number;
+    maxFrameSize: number;
+}
+
+export const DEFAULT_REPLAY_CONFIG: ReplayServerConfig = {
+    port: 8081,
+    server: null,
+    protocolMode: 'json',
+    helloTimeout: 500,
+    speed: 1,
+    maxFrameSize: 4096,
+};
+
+/**
+ * One client watching a replay. Every client has its own playback position, speed and pause state.
+ */
+class ReplaySession {
+    private readonly ws: WebSocket;
+    private readonly recording: Recording;
+    private format: ProtocolFormat;
+    private binaryContext: BinaryEncodingContext;
+    private started = false; // Set once the format is settled and playback has begun
+    private helloTimer: NodeJS.Timeout | null = null;
+    private timer: NodeJS.Timeout | null = null; // Fires when the next entry is due
+    private index = 0; // Next entry to play
+    private position = 0; // Playback position when the clock was last anchored (ms into the recording)
+    private anchoredAt = 0; // Wall clock time of that anchor (ms since the epoch)
+    private speed: number;
+    private paused = false;
+    private seq = 0; // Sequence number of the last state sent
+    private lastState: StateUpdateMessage | null = null; // Last recorded state played, resent on `resync`
+
+    /**
+     * Creates a new ReplaySession. Playback starts once the format is settled.
+     * @param {WebSocket} ws - The client's connection.
+     * @param {Recording} recording - What to play.
+     * @param {ReplayServerConfig} config - The server's settings.
+     */
+    constructor(ws: WebSocket, recording: Recording, config: ReplayServerConfig) {
+        this.ws = ws;
+        this.recording = recording;
+        this.speed = config.speed;
+        this.binaryContext = createBinaryEncodingContext();
+        const negotiated = ws.protocol ? parseSubprotocol(ws.protocol) : null;
+        this.format = negotiated?.format ?? config.protocolMode;
+        if (negotiated) {
+            this.begin();
+        } else {
+            this.helloTimer = setTimeout(() => this.begin(), config.helloTimeout);
+        }
+        ws.on('message', data => {
+            if (data instanceof Buffer) {
+                this.handleFrame(new Uint8Array(data));
+            }
+        });
+        ws.on('close', () => this.dispose());
+        // ws closes the connection itself after an error, such as an oversized frame
+        ws.on('error', error => console.error('Replay client error:', error.message));
+    }
+
+    /**
+     * Stops playback and closes the connection.
+     * @param {string} reason - The close reason.
+     */
+    public close(reason: string): void {
+        this.dispose();
+        this.ws.close(1001, reason);
+    }
+
+    /**
+     * Stops every timer of the session.
+     */
+    private dispose(): void {
+        if (this.helloTimer) {
+            clearTimeout(this.helloTimer);
+            this.helloTimer = null;
+        }
+        this.clearTimer();
+        this.paused = true;
+    }
+
+    /**
+     * Introduces the client to the recorded room, as a live server would, and starts playback.
+     */
+    private begin(): void {
+        if (this.started) {
+            return;
+        }
+        this.started = true;
+        if (this.helloTimer) {
+            clearTimeout(this.helloTimer);
+            this.helloTimer = null;
+        }
+        // The client watches as a spectator that owns no player
+        this.send({ type: 'id_assignment', playerId: uuidv4() } as IdAssignmentMessage);
+        this.send({ type: 'room_joined', roomId: this.recording.header.roomId } as RoomJoinedMessage);
+        this.sendStatus();
+        this.anchor();
+        this.schedule();
+    }
+
+    /**
+     * Handles a frame from the client: a `hello` before playback starts, a control, or a `resync`.
+     */
+    private handleFrame(data: Uint8Array): void {
+        if (!this.started) {
+            const helloFormat = detectClientFormat(data);
+            const first = decodeClientMessage(data, helloFormat);
+            if (first.ok && !first.custom && first.message.type === 'hello'
+                && SUPPORTED_PROTOCOL_VERSIONS.includes(first.message.version) && PROTOCOL_FORMATS.includes(first.message.format)) {
+                this.format = first.message.format;
+                this.send({ type: 'welcome', format: this.format, version: first.message.version } as WelcomeMessage);
+                this.begin();
+                return;
+            }
+            this.begin();
+        }
+
+        const result = decodeClientMessage(data, this.format, REPLAY_CONTROL_SCHEMAS);
+        if (!result.ok) {
+            this.send({ type: 'error', code: result.code, message: result.detail } as ErrorMessage);
+            return;
+        }
+        const message = result.message;
+        switch (message.type) {
+            case 'replay_pause':
+                this.pause();
+                break;
+            case 'replay_resume':
+                this.resume();
+                break;
+            case 'replay_seek':
+                this.seek(message.time as number);
+                break;
+            case 'replay_speed':
+                this.setSpeed(message.speed as number);
+                break;
+            case 'resync':
+                if (this.lastState) {
+                    this.sendState(this.lastState);
+                }
+                break;
+            default:
+                // Moves, chat and the like have nothing to act on in a replay
+                break;
+        }
+    }
+
+    /**
+     * Gets the playback position: where the clock was anchored plus the time played
+     * since, but never past the next entry, which has not been sent yet.
+     */
+    private getPosition(): number {
+        if (this.paused || !this.timer) {
+            return this.position;
+        }
+        const next = this.recording.entries[this.index];
+        const position = this.position + (Date.now() - this.anchoredAt) * this.speed;
+        return next ? Math.min(position, next.time) : position;
+    }
+
+    /**
+     * Fixes the playback position to now, e.g. before the speed changes.
+     */
+    private anchor(): void {
+        this.position = this.getPosition();
+        this.anchoredAt = Date.now();
+    }
+
+    /**
+     * Cancels the timer of the next entry.
+     */
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Sets a timer for the next entry, or reports the end of the recording.
+     */
+    private schedule(): void {
+        this.clearTimer();
+        if (this.paused) {
+            return;
+        }
+        const next = this.recording.entries[this.index];
+        if (!next) {
+            this.paused = true;
+            this.sendStatus();
+            return;
+        }
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            // Entries recorded in the same millisecond go out together
+            while (this.index < this.recording.entries.length && this.recording.entries[this.index].time <= next.time) {
+                this.play(this.recording.entries[this.index]);
+                this.index++;
+            }
+            this.position = next.time;
+            this.anchoredAt = Date.now();
+            this.schedule();
+        }, Math.max(0, (next.time - this.position) / this.speed));
+    }
+
+    /**
+     * Sends one recorded entry to the client.
+     */
+    private play(entry: RecordingEntry): void {
+        if (entry.kind === 'state') {
+            this.lastState = entry.message;
+            this.sendState(entry.message);
+        } else {
+            this.send({ type: 'replay_input', playerId: entry.playerId, input: entry.message } as CustomServerMessage);
+        }
+    }
+
+    /**
+     * Sends a recorded state as a keyframe, numbered and timecoded for this client. It keeps the room's tick.
+     */
+    private sendState(state: StateUpdateMessage): void {
+        this.seq++;
+        this.send({ type: 'state', seq: this.seq, tick: state.tick, players: state.players, entities: state.entities } as StateUpdateMessage);
+    }
+
+    /**
+     * Stops playback at the current position.
+     */
+    private pause(): void {
+        this.anchor();
+        this.paused = true;
+        this.clearTimer();
+        this.sendStatus();
+    }
+
+    /**
+     * Continues playback, from the start if the recording has ended.
+     */
+    private resume(): void {
+        if (this.index >= this.recording.entries.length) {
+            this.paused = false;
+            this.seek(0);
+            return;
+        }
+        this.paused = false;
+        this.anchor();
+        this.sendStatus();
+        this.schedule();
+    }
+
+    /**
+     * Jumps to a position and sends the last state recorded at or before it. Client
+     * messages between that state and the position are skipped.
+     * @param {number} time - The position (ms into the recording).
+     */
+    private seek(time: number): void {
+        const target = Math.min(time, this.recording.duration);
+        const entries = this.recording.entries;
+        let state: StateUpdateMessage | null = null;
+        let index = 0;
+        while (index < entries.length && entries[index].time <= target) {
+            const entry = entries[index];
+            if (entry.kind === 'state') {
+                state = entry.message;
+            }
+            index++;
+        }
+        this.clearTimer();
+        this.index = index;
+        this.position = target;
+        this.anchoredAt = Date.now();
+        if (state) {
+            this.lastState = state;
+            this.sendState(state);
+        }
+        this.sendStatus();
+        this.schedule();
+    }
+
+    /**
+     * Changes the playback speed, keeping the current position.
+     * @param {number} speed - The new speed.
+     */
+    private setSpeed(speed: number): void {
+        this.anchor();
+        this.speed = speed;
+        this.sendStatus();
+        this.schedule();
+    }
+
+    /**
+     * Tells the client where playback stands.
+     */
+    private sendStatus(): void {
+        this.send({
+            type: 'replay_status',
+            time: Math.round(this.getPosition()),
+            duration: this.recording.duration,
+            speed: this.speed,
+            paused: this.paused,
+            ended: this.index >= this.recording.entries.length,
+        } as CustomServerMessage);
+    }
+
+    /**
+     * Encodes and sends a message if the connection is open.
+     */
+    private send(message: ServerMessage | CustomServerMessage): void {
+        if (this.ws.readyState === WebSocket.OPEN) {
+            this.ws.send(encodeServerMessage(message, this.format, this.binaryContext));
+        }
+    }
+}
+
+/**
+ * Serves a recording made with the `recording` option to WebSocket clients. Clients
+ * connect and negotiate a format exactly as with a live server, then receive
+ * the recorded room's states as keyframes at the recorded pace.
+ */
+export class ReplayServer {
+    public readonly config: ReplayServerConfig;
+    public readonly file: string;
+    private wss: WebSocketServer | null = null;
+    private httpServer: HttpServer | null = null; // Serves `port` when no server was given
+    private sessions: Set<ReplaySession>;
+    private assignedHandles: string[]; // Recorded player IDs given binary handles by this server
+
+    /**
+     * Creates a new ReplayServer. The recording is not read until `start()` is called.
+     * @param {string} file - The recording to serve.
+     * @param {Partial<ReplayServerConfig>} options - Settings that differ from DEFAULT_REPLAY_CONFIG (optional).
+     */
+    constructor(file: string, options: Partial<ReplayServerConfig> = {}) {
+        this.file = file;
+        this.config = { ...DEFAULT_REPLAY_CONFIG, ...options };
+        this.sessions = new Set<ReplaySession>();
+        this.assignedHandles = [];
+    }
+
+    /**
+     * Reads the recording and starts accepting connections.
+     * @returns {Promise<void>} Resolves once the server is listening.
+     * @throws {Error} If the server is already running.
+     */
+    public async start(): Promise<void> {
+        if (this.wss) {
+            throw new Error('ReplayServer is already running.');
+        }
+        const recording = await readRecording(this.file);
+        console.log(`Loaded recording of room ${recording.header.roomId}: ${recording.entries.length} entries over ${recording.duration}ms.`);
+
+        // Binary keyframes refer to players by handle, so recorded players need one
+        recording.entries.forEach(entry => {
+            if (entry.kind === 'state') {
+                entry.message.players.forEach(player => {
+                    if (playerHandles.get(player.id) === undefined) {
+                        playerHandles.assign(player.id);
+                        this.assignedHandles.push(player.id);
+                    }
+                });
+            }
+        });
+
+        const httpServer = this.config.server ?? createServer((request, response) => {
+            response.writeHead(426, { 'Content-Type': 'text/plain' });
+            response.end('Upgrade Required');
+        });
+        this.httpServer = this.config.server ? null : httpServer;
+        const wss = new WebSocketServer({ server: httpServer, maxPayload: this.config.maxFrameSize, handleProtocols: selectSubprotocol });
+        this.wss = wss;
+        wss.on('connection', ws => {
+            const session = new ReplaySession(ws, recording, this.config);
+            this.sessions.add(session);
+            ws.on('close', () => this.sessions.delete(session));
+        });
+        wss.on('error', error => console.error('WebSocket server error:', error));
+        if (this.httpServer) {
+            await listenOnPort(this.httpServer, this.config.port);
+            console.log(`Replay server listening on port ${this.config.port}`);
+        }
+    }
+
+    /**
+     * Closes every connection and stops accepting new ones.
+     * @returns {Promise<void>} Resolves once the server is closed.
+     */
+    public async stop(): Promise<void> {
+        const wss = this.wss;
+        if (!wss) {
+            return;
+        }
+        this.wss = null;
+        this.sessions.forEach(session => session.close('Replay server shutting down'));
+        this.sessions.clear();
+        await new Promise<void>(resolve => wss.close(() => resolve()));
+        if (this.httpServer) {
+            await closeHttpServer(this.httpServer);
+            this.httpServer = null;
+        }
+        this.assignedHandles.forEach(playerId => playerHandles.release(playerId));
+        this.assignedHandles = [];
+    }
+}
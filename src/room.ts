@@ -0,0 +1,922 @@
+// Defines game rooms, each owning its own Game instance, player cap and tick loop,
+// and the RoomManager that creates, looks up and removes them.
+import { WebSocket } from 'ws';
+import { mkdirSync } from 'fs';
+import { encodeServerMessage, getTimecode, ProtocolFormat, ClientMessage, CustomClientMessage, ServerMessage, CustomServerMessage, PlayerConnectedMessage, PlayerDisconnectedMessage, PlayerSuspendedMessage, PlayerResumedMessage, StateUpdateMessage, DeltaUpdateMessage, PlayerEnterMessage, PlayerLeaveMessage, EntitySpawnMessage, EntityDespawnMessage, ChatChannel, ChatLineMessage, ChatHistoryMessage } from './protocol';
+import { Game, MovementConfig, DEFAULT_INTEREST_RADIUS, DEFAULT_MOVEMENT_CONFIG } from './game';
+import { PlayerState, AttributeSchema, TEAM_ATTRIBUTE } from './player';
+import { EntityState } from './entity';
+import { BinaryEncodingContext } from './binary';
+import { Identity } from './auth';
+import { LatencyEstimator } from './lag';
+import { ChatConfig, ChatHistory, ChatResult, ChatLine, DEFAULT_CHAT_CONFIG } from './chat';
+import { PlayerProfile, StorageAdapter, WorldSnapshot } from './storage';
+import { serverMetrics, recordMessageSent } from './metrics';
+import { SessionRecorder, RecordingConfig } from './recording';
+import { TickScheduler } from './scheduler';
+import { MessageRegistry } from './registry';
+
+/**
+ * A WebSocket connection annotated with the server's per-client state.
+ */
+export interface CustomWebSocket extends WebSocket {
+    id: string; // Add a unique ID to each WebSocket connection
+    format: ProtocolFormat; // Wire format negotiated for this connection
+    protocolVersion: number; // Protocol version negotiated for this connection
+    roomId: string | null; // ID of the room the client is in, or null if it is in none
+    seq: number; // Sequence number of the last state/delta message sent to this client
+    sendInterval: number; // Ticks between state sends to this client, raised while its send buffer is backed up
+    nextSendTick: number; // Room tick on or after which this client gets its next state send
+    keyframeTick: number; // Room tick of the last keyframe sent to this client
+    pendingPlayers: Set<string>; // Player IDs that changed since this client's last state send
+    pendingEntities: Set<string>; // Entity IDs that spawned or changed since this client's last state send
+    pendingAttributes: Map<string, Set<string>>; // Names of the custom attributes changed since this client's last state send, by player ID
+    visiblePlayers: Set<string>; // Player IDs currently in this client's area of interest
+    visibleEntities: Set<string>; // Entity IDs currently in this client's area of interest
+    binaryContext: BinaryEncodingContext; // Player IDs and names this client already has, for binary mode
+    identity: Identity | null; // User verified during the upgrade, or null for anonymous connections
+    mutedPlayers: Set<string>; // Player IDs whose chat is not delivered to this client
+    latency: LatencyEstimator; // Round-trip time and clock offset measured with ping/pong
+    profile: PlayerProfile | null; // Saved profile, restored when joining a room and refreshed when leaving one
+    address: string; // IP address the connection came from
+}
+
+/**
+ * Summary of a room as reported to clients by `list_rooms`.
+ * @property {string} id - The room's ID.
+ * @property {number} playerCount - Number of players currently in the room.
+ * @property {number} maxPlayers - Player cap of the room.
+ */
+export interface RoomInfo {
+    id: string;
+    playerCount: number;
+    maxPlayers: number;
+}
+
+/**
+ * Settings for a single room.
+ * @property {number} maxPlayers - Maximum number of players allowed in the room.
+ * @property {number} tickRate - Milliseconds between simulation ticks.
+ * @property {number} sendRate - Milliseconds between state sends to a client that keeps up, rounded to whole ticks.
+ * @property {number} maxSendInterval - Longest time between state sends to a client whose send buffer is backed up (ms).
+ * @property {number} sendBufferLimit - Bytes queued on a connection above which state sends to it are skipped and slowed down.
+ * @property {number} keyframeInterval - Ticks between full state keyframes to each client.
+ * @property {number} interestRadius - X/Z distance within which players see each other.
+ * @property {MovementConfig} movement - Speed, clock and bounds rules for client moves.
+ * @property {ChatConfig} chat - Length limit, history, proximity radius and filter for chat.
+ * @property {AttributeSchema} attributes - Custom attributes every player has, sent in state updates as their visibility allows.
+ */
+export interface RoomConfig {
+    maxPlayers: number;
+    tickRate: number;
+    sendRate: number;
+    maxSendInterval: number;
+    sendBufferLimit: number;
+    keyframeInterval: number;
+    interestRadius: number;
+    movement: MovementConfig;
+    chat: ChatConfig;
+    attributes: AttributeSchema;
+}
+
+export const DEFAULT_ROOM_CONFIG: RoomConfig = {
+    maxPlayers: 64,
+    tickRate: 1000 / 60,
+    sendRate: 1000 / 30,
+    maxSendInterval: 250,
+    sendBufferLimit: 64 * 1024,
+    keyframeInterval: 120,
+    interestRadius: DEFAULT_INTEREST_RADIUS,
+    movement: DEFAULT_MOVEMENT_CONFIG,
+    chat: DEFAULT_CHAT_CONFIG,
+    attributes: {},
+};
+
+/**
+ * Whether display names must be unique within each room or across the whole server.
+ */
+export type NameScope = 'room' | 'server';
+
+/**
+ * A self-contained game instance: its own Game, its own clients and its own
+ * fixed-timestep tick loop. The game is simulated on every tick; each client
+ * gets state at its own send rate, which drops while its connection cannot keep
+ * up. All broadcasts are scoped to the room's clients.
+ */
+export class Room {
+    public readonly id: string;
+    public readonly game: Game;
+    private config: RoomConfig;
+    private clients: Map<string, CustomWebSocket>; // Maps player ID to the connections in this room
+    private suspendedPlayers: Set<string>; // Players whose connection dropped but who are kept in the game for a grace period
+    private chatHistory: ChatHistory; // Recent global chat, replayed to players who join
+    private scheduler: TickScheduler; // Runs the room's ticks and numbers them
+    private lastTickStart: number | null = null; // performance.now() time the previous tick started, for the tick interval metric
+    private recorder: SessionRecorder | null = null; // Writes the room's session to disk, if it is being recorded
+    private readonly messages: MessageRegistry; // Custom server message types, checked before broadcasting
+
+    /**
+     * Creates a new Room. The tick loop does not run until `start()` is called.
+     * @param {string} id - The room's unique ID.
+     * @param {RoomConfig} config - The room's settings.
+     * @param {Set<string>} sharedPlayerNames - Name registry shared with other rooms (optional, per-room names if not provided).
+     * @param {Map<string, string>} nameReservations - Names reserved for authenticated users, shared with other rooms (optional).
+     * @param {MessageRegistry} messages - Custom message types that broadcasts are checked against (optional, only built-in messages may be broadcast if not provided).
+     */
+    constructor(id: string, config: RoomConfig, sharedPlayerNames?: Set<string>, nameReservations?: Map<string, string>, messages: MessageRegistry = new MessageRegistry()) {
+        this.id = id;
+        this.config = config;
+        this.messages = messages;
+        this.game = new Game(config.interestRadius, sharedPlayerNames, config.movement, nameReservations, config.attributes);
+        this.clients = new Map<string, CustomWebSocket>();
+        this.suspendedPlayers = new Set<string>();
+        this.chatHistory = new ChatHistory(config.chat.historySize);
+        this.scheduler = new TickScheduler(config.tickRate, (_tick, step) => this.runTick(step), count => serverMetrics.ticksSkipped.inc({}, count));
+    }
+
+    /**
+     * Gets the number of the room's latest tick, as stamped on state messages.
+     * @returns {number} The tick number, 0 before the first tick.
+     */
+    public get currentTick(): number {
+        return this.scheduler.currentTick;
+    }
+
+    /**
+     * Gets the number of players in the room, including suspended ones.
+     * @returns {number} The player count.
+     */
+    public get playerCount(): number {
+        return this.clients.size + this.suspendedPlayers.size;
+    }
+
+    /**
+     * Checks whether the room has reached its player cap. Suspended players keep their slot.
+     * @returns {boolean} True if no more players can join.
+     */
+    public isFull(): boolean {
+        return this.playerCount >= this.config.maxPlayers;
+    }
+
+    /**
+     * Gets a summary of the room for room listings.
+     * @returns {RoomInfo} The room's summary.
+     */
+    public getInfo(): RoomInfo {
+        return { id: this.id, playerCount: this.playerCount, maxPlayers: this.config.maxPlayers };
+    }
+
+    /**
+     * Starts the room's tick loop.
+     */
+    public start(): void {
+        this.lastTickStart = null;
+        this.scheduler.start();
+    }
+
+    /**
+     * Changes the time between ticks. A running tick loop ticks next one new step from now;
+     * send rates, being set in milliseconds, are converted to the new number of ticks.
+     * @param {number} tickRate - Milliseconds between simulation ticks.
+     */
+    public setTickRate(tickRate: number): void {
+        this.config = { ...this.config, tickRate };
+        this.scheduler.setStep(tickRate);
+    }
+
+    /**
+     * Stops the room's tick loop and finishes its recording. The tick count carries on if it is started again.
+     * @returns {Promise<void>} Resolves once the recording, if any, is fully written.
+     */
+    public stop(): Promise<void> {
+        this.scheduler.stop();
+        return this.stopRecording();
+    }
+
+    /**
+     * Starts recording every client message the room receives and its state after
+     * every tick in which it has clients. Any recording in progress is finished first.
+     * @param {RecordingConfig} config - Where to write the recording and how much to keep.
+     */
+    public startRecording(config: RecordingConfig): void {
+        this.stopRecording();
+        this.recorder = new SessionRecorder(this.id, this.config.tickRate, config);
+        console.log(`Recording room ${this.id} to ${config.dir}.`);
+    }
+
+    /**
+     * Finishes the room's recording, if it is being recorded.
+     * @returns {Promise<void>} Resolves once the recording is fully written.
+     */
+    public stopRecording(): Promise<void> {
+        const recorder = this.recorder;
+        this.recorder = null;
+        return recorder ? recorder.close() : Promise.resolve();
+    }
+
+    /**
+     * Records a client message from a player in the room, if the room is being recorded.
+     * @param {string} playerId - The sender.
+     * @param {ClientMessage | CustomClientMessage} message - The decoded message.
+     */
+    public recordClientMessage(playerId: string, message: ClientMessage | CustomClientMessage): void {
+        this.recorder?.recordClientMessage(playerId, message);
+    }
+
+    /**
+     * Adds a client to the room, sends it a keyframe and tells the other clients.
+     * The player keeps the stats of its saved profile, and its position too if
+     * the profile was saved in this room.
+     * @param {CustomWebSocket} client - The connection joining the room.
+     * @param {string | null} name - A display name to carry over from a previous room (optional).
+     * @returns {PlayerState} The state of the newly added player.
+     */
+    public addClient(client: CustomWebSocket, name: string | null = null): PlayerState {
+        const playerId = client.id;
+        this.clients.set(playerId, client);
+        client.roomId = this.id;
+        client.seq = 0;
+        client.sendInterval = this.toTicks(this.config.sendRate);
+        client.nextSendTick = 0;
+        client.visiblePlayers = new Set<string>();
+        client.visibleEntities = new Set<string>();
+
+        // Add player to the game state
+        const profile = client.profile;
+        const initialPlayerState = profile && profile.roomId === this.id
+            ? this.game.addPlayer(playerId, profile.x, profile.z, profile.rot, profile.stats)
+            : this.game.addPlayer(playerId, Math.random() * 50, 1, 0, profile?.stats); // Random initial X, default Z and rotation
+        if (name && !this.game.setPlayerName(playerId, name, client.identity?.userId ?? null)) {
+            console.log(`Player ${playerId} could not keep name "${name}" in room ${this.id} - already taken`);
+        }
+
+        // Send the new client a keyframe so it can apply subsequent deltas
+        this.sendTo(client, this.createKeyframe(client));
+        this.sendChatHistory(client);
+
+        // Broadcast to all OTHER clients that a new player has connected (excluding the new client)
+        this.broadcast({ type: 'connected', playerId } as PlayerConnectedMessage, playerId);
+        console.log(`Player ${playerId} joined room ${this.id} (${this.clients.size}/${this.config.maxPlayers}).`);
+        return this.game.getPlayerState(playerId) ?? initialPlayerState;
+    }
+
+    /**
+     * Removes a client from the room and tells the remaining clients.
+     * @param {string} playerId - The ID of the player leaving.
+     * @returns {boolean} True if the player was in the room.
+     */
+    public removeClient(playerId: string): boolean {
+        const client = this.clients.get(playerId);
+        if (client) {
+            this.clients.delete(playerId);
+            client.roomId = null;
+            client.visiblePlayers = new Set<string>();
+            client.visibleEntities = new Set<string>();
+            client.pendingPlayers = new Set<string>();
+            client.pendingEntities = new Set<string>();
+            client.pendingAttributes = new Map<string, Set<string>>();
+        } else if (!this.suspendedPlayers.delete(playerId)) {
+            return false;
+        }
+        this.game.removePlayer(playerId);
+        // Broadcast to all remaining clients that a player has disconnected
+        this.broadcast({ type: 'disconnected', playerId } as PlayerDisconnectedMessage);
+        console.log(`Player ${playerId} left room ${this.id}.`);
+        return true;
+    }
+
+    /**
+     * Detaches a client whose connection dropped while keeping its player in
+     * the game, so it can be resumed later. Other clients see it as suspended.
+     * @param {string} playerId - The ID of the player to suspend.
+     * @returns {boolean} True if the player was connected to the room.
+     */
+    public suspendClient(playerId: string): boolean {
+        const client = this.clients.get(playerId);
+        if (!client) {
+            return false;
+        }
+        this.clients.delete(playerId);
+        this.suspendedPlayers.add(playerId);
+        this.broadcast({ type: 'player_suspended', playerId } as PlayerSuspendedMessage);
+        console.log(`Player ${playerId} suspended in room ${this.id}.`);
+        return true;
+    }
+
+    /**
+     * Reattaches a suspended player to a new connection and sends it a keyframe.
+     * @param {CustomWebSocket} client - The new connection, whose `id` is the suspended player's ID.
+     * @returns {boolean} True if the player was suspended in this room.
+     */
+    public resumeClient(client: CustomWebSocket): boolean {
+        const playerId = client.id;
+        if (!this.suspendedPlayers.delete(playerId)) {
+            return false;
+        }
+        this.clients.set(playerId, client);
+        client.roomId = this.id;
+        client.seq = 0;
+        client.sendInterval = this.toTicks(this.config.sendRate);
+        client.nextSendTick = 0;
+        client.visiblePlayers = new Set<string>();
+        client.visibleEntities = new Set<string>();
+        this.sendTo(client, this.createKeyframe(client));
+        this.broadcast({ type: 'player_resumed', playerId } as PlayerResumedMessage, playerId);
+        console.log(`Player ${playerId} resumed in room ${this.id}.`);
+        return true;
+    }
+
+    /**
+     * Broadcasts a server message to every client in the room. The message is
+     * encoded once per format in use rather than once per client. Custom messages
+     * are checked against their schema first, as `KeystoneServer.sendToPlayer` does.
+     * @param {ServerMessage | CustomServerMessage} message - The message object to send; custom messages must be of a type defined in the server's `messages`.
+     * @param {string} excludePlayerId - A player to skip (optional).
+     * @returns {boolean} True if the message was sent, false if it does not match its schema.
+     */
+    public broadcast(message: ServerMessage | CustomServerMessage, excludePlayerId?: string): boolean {
+        const recipients: CustomWebSocket[] = [];
+        this.clients.forEach((ws, clientId) => {
+            if (clientId !== excludePlayerId) {
+                recipients.push(ws);
+            }
+        });
+        return this.deliver(message, recipients);
+    }
+
+    /**
+     * Sends a chat line from a player to the recipients of its channel: everyone in
+     * the room (global), one player by name (whisper) or the players within the
+     * proximity radius. Recipients who muted the sender do not get it; the sender
+     * always gets its own line back. Global lines are kept in the room's history.
+     * @param {string} playerId - The ID of the sending player.
+     * @param {ChatChannel} channel - The channel to send on.
+     * @param {string} text - The text as sent by the client.
+     * @param {string} to - The recipient's display name (whispers only).
+     * @returns {ChatResult} The delivered line, or the reason it was rejected.
+     */
+    public sendChat(playerId: string, channel: ChatChannel, text: string, to?: string): ChatResult {
+        const sender = this.clients.get(playerId);
+        const state = this.game.getPlayerState(playerId);
+        if (!sender || !state) {
+            return { ok: false, reason: 'Not in this room' };
+        }
+
+        const trimmed = text.trim();
+        if (trimmed.length === 0) {
+            return { ok: false, reason: 'Message is empty' };
+        }
+        if (trimmed.length > this.config.chat.maxLength) {
+            return { ok: false, reason: `Message is longer than ${this.config.chat.maxLength} characters` };
+        }
+        const filtered = this.config.chat.filter ? this.config.chat.filter(trimmed) : trimmed;
+        if (filtered === null) {
+            return { ok: false, reason: 'Message blocked by filter' };
+        }
+
+        let recipientIds: Iterable<string>;
+        switch (channel) {
+            case 'global':
+                recipientIds = this.clients.keys();
+                break;
+            case 'whisper': {
+                const targetId = to ? this.game.getPlayerIdByName(to) : null;
+                if (!to || !targetId || !this.clients.has(targetId)) {
+                    return { ok: false, reason: to ? `No player named "${to}" in this room` : 'Whispers need a recipient' };
+                }
+                recipientIds = [targetId, playerId];
+                break;
+            }
+            case 'proximity':
+                recipientIds = this.game.getPlayerIdsInRadius(state.x, state.z, this.config.chat.proximityRadius);
+                break;
+        }
+
+        const line: ChatLine = { channel, from: playerId, fromName: state.name, text: filtered, sentAt: Date.now() };
+        if (channel === 'whisper') {
+            line.to = to;
+        }
+        const recipients: CustomWebSocket[] = [];
+        for (const id of new Set(recipientIds)) {
+            const recipient = this.clients.get(id);
+            if (recipient && (id === playerId || !recipient.mutedPlayers.has(playerId))) {
+                recipients.push(recipient);
+            }
+        }
+        this.deliver({ type: 'chat_message', ...line } as ChatLineMessage, recipients);
+        if (channel === 'global') {
+            this.chatHistory.add(line);
+        }
+        return { ok: true, line };
+    }
+
+    /**
+     * Builds the profile of a player in this room, to be saved.
+     * @param {string} playerId - The ID of the player.
+     * @param {string} key - The profile key.
+     * @returns {PlayerProfile | null} The profile, or null if the player is not in the room.
+     */
+    public createProfile(playerId: string, key: string): PlayerProfile | null {
+        const state = this.game.getPlayerState(playerId);
+        const stats = this.game.getPlayerStats(playerId);
+        if (!state || !stats) {
+            return null;
+        }
+        return { key, name: state.name, roomId: this.id, x: state.x, z: state.z, rot: state.rot, stats, savedAt: Date.now() };
+    }
+
+    /**
+     * Takes a snapshot of the room's persistent state.
+     * @returns {WorldSnapshot} The snapshot.
+     */
+    public createWorldSnapshot(): WorldSnapshot {
+        return { roomId: this.id, entities: this.game.getAllEntityStates(), savedAt: Date.now() };
+    }
+
+    /**
+     * Recreates the entities of a saved snapshot. Entities that already exist are
+     * left alone, so entities spawned before the snapshot finished loading win.
+     * @param {WorldSnapshot} snapshot - The snapshot to restore.
+     */
+    public restoreWorldSnapshot(snapshot: WorldSnapshot): void {
+        snapshot.entities.forEach(({ id, type, x, y, z, rot, props }) => {
+            if (!this.game.getEntity(id)) {
+                this.game.createEntity(type, { id, x, y, z, rot, props });
+            }
+        });
+        console.log(`Restored ${snapshot.entities.length} entities in room ${this.id} from ${new Date(snapshot.savedAt).toISOString()}.`);
+    }
+
+    /**
+     * Sends a client a fresh keyframe, e.g. after it detected a sequence gap.
+     * @param {string} playerId - The ID of the player to resync.
+     * @returns {boolean} True if the player is in the room.
+     */
+    public resync(playerId: string): boolean {
+        const client = this.clients.get(playerId);
+        if (!client) {
+            return false;
+        }
+        this.sendTo(client, this.createKeyframe(client));
+        return true;
+    }
+
+    /**
+     * Sends a message to several clients, encoding it once per format in use,
+     * unless it is a custom message that does not match its schema.
+     * @returns {boolean} True if the message passed the check.
+     */
+    private deliver(message: ServerMessage | CustomServerMessage, recipients: CustomWebSocket[]): boolean {
+        const problem = this.messages.checkServerMessage(message);
+        if (problem) {
+            console.error(`Refused to send ${message.type} to room ${this.id}: ${problem}`);
+            return false;
+        }
+        const encodedByFormat = new Map<ProtocolFormat, Uint8Array | string>();
+        recipients.forEach(ws => {
+            if (ws.readyState === WebSocket.OPEN) {
+                let encodedMessage = encodedByFormat.get(ws.format);
+                if (encodedMessage === undefined) {
+                    encodedMessage = encodeServerMessage(message, ws.format);
+                    encodedByFormat.set(ws.format, encodedMessage);
+                }
+                ws.send(encodedMessage);
+                recordMessageSent(message.type, ws.format, encodedMessage);
+            }
+        });
+        return true;
+    }
+
+    /**
+     * Sends a client the room's recent global chat, leaving out lines from players it muted.
+     */
+    private sendChatHistory(client: CustomWebSocket): void {
+        const lines = this.chatHistory.getLines().filter(line => !client.mutedPlayers.has(line.from));
+        if (lines.length > 0) {
+            this.sendTo(client, { type: 'chat_history', lines } as ChatHistoryMessage);
+        }
+    }
+
+    /**
+     * Encodes and sends a message to a single client if its connection is open.
+     */
+    private sendTo(client: CustomWebSocket, message: ServerMessage): void {
+        if (client.readyState === WebSocket.OPEN) {
+            const encodedMessage = encodeServerMessage(message, client.format, client.binaryContext);
+            client.send(encodedMessage);
+            recordMessageSent(message.type, client.format, encodedMessage);
+        }
+    }
+
+    /**
+     * Converts a time to a whole number of ticks, at least one.
+     */
+    private toTicks(ms: number): number {
+        return Math.max(1, Math.round(ms / this.config.tickRate));
+    }
+
+    /**
+     * Builds a full state keyframe of the players and entities in a client's area of
+     * interest, stamped with the client's current sequence number and the room's tick,
+     * and resets the client's visible sets to match and its pending changes.
+     * Deltas sent afterwards continue from `seq + 1`.
+     * @param {CustomWebSocket} client - The client the keyframe is for.
+     * @returns {StateUpdateMessage} The keyframe message.
+     */
+    private createKeyframe(client: CustomWebSocket): StateUpdateMessage {
+        client.visiblePlayers = this.game.getInterestSet(client.id);
+        const players: PlayerState[] = [];
+        client.visiblePlayers.forEach(id => {
+            const state = this.getPlayerStateFor(client, id);
+            if (state) {
+                players.push(state);
+            }
+        });
+        client.visibleEntities = this.game.getEntityInterestSet(client.id);
+        const entities: EntityState[] = [];
+        client.visibleEntities.forEach(id => {
+            const state = this.game.getEntityState(id);
+            if (state) {
+                entities.push(state);
+            }
+        });
+        client.keyframeTick = this.currentTick;
+        client.pendingPlayers = new Set<string>();
+        client.pendingEntities = new Set<string>();
+        client.pendingAttributes = new Map<string, Set<string>>();
+        return { type: 'state', seq: client.seq, tick: this.currentTick, players, entities } as StateUpdateMessage;
+    }
+
+    /**
+     * Gets a player's state as a client may see it: with the custom attributes
+     * the attribute visibility allows it, either all of them or just the given ones.
+     * @returns {PlayerState | null} The state, or null if the player does not exist.
+     */
+    private getPlayerStateFor(client: CustomWebSocket, playerId: string, keys?: Iterable<string>): PlayerState | null {
+        const state = this.game.getPlayerState(playerId);
+        const attrs = state ? this.game.getVisibleAttributes(playerId, client.id, keys) : null;
+        if (state && attrs) {
+            state.attrs = attrs;
+        }
+        return state;
+    }
+
+    /**
+     * Sends a client the changes in its area of interest since its last state send:
+     * players that left or entered the interest radius, then the same for entities
+     * (including ones spawned or destroyed), then a delta of the visible players and
+     * entities that changed. Leaves go first so a handle freed by a departing player
+     * is released on the client before a newcomer can reuse it. A player whose only
+     * changes are attributes the client may not see is left out of the delta.
+     * @param {CustomWebSocket} client - The client to update; its pending changes are consumed.
+     */
+    private sendInterestUpdate(client: CustomWebSocket): void {
+        const updatedPlayers = client.pendingPlayers;
+        const updatedEntities = client.pendingEntities;
+        const updatedAttributes = client.pendingAttributes;
+        client.pendingPlayers = new Set<string>();
+        client.pendingEntities = new Set<string>();
+        client.pendingAttributes = new Map<string, Set<string>>();
+
+        const previous = client.visiblePlayers;
+        const current = this.game.getInterestSet(client.id);
+        client.visiblePlayers = current;
+
+        const entered: PlayerState[] = [];
+        current.forEach(id => {
+            if (!previous.has(id)) {
+                const state = this.getPlayerStateFor(client, id);
+                if (state) {
+                    entered.push(state);
+                }
+            }
+        });
+        const left: string[] = [];
+        previous.forEach(id => {
+            if (!current.has(id)) {
+                left.push(id);
+            }
+        });
+
+        if (left.length > 0) {
+            this.sendTo(client, { type: 'player_leave', playerIds: left } as PlayerLeaveMessage);
+        }
+        if (entered.length > 0) {
+            this.sendTo(client, { type: 'player_enter', players: entered } as PlayerEnterMessage);
+        }
+
+        // Destroyed entities are no longer indexed, so they drop out of the current set too
+        const previousEntities = client.visibleEntities;
+        const currentEntities = this.game.getEntityInterestSet(client.id);
+        client.visibleEntities = currentEntities;
+        const despawned: string[] = [];
+        previousEntities.forEach(id => {
+            if (!currentEntities.has(id)) {
+                despawned.push(id);
+            }
+        });
+        const spawned: EntityState[] = [];
+        currentEntities.forEach(id => {
+            if (!previousEntities.has(id)) {
+                const state = this.game.getEntityState(id);
+                if (state) {
+                    spawned.push(state);
+                }
+            }
+        });
+        if (despawned.length > 0) {
+            this.sendTo(client, { type: 'entity_despawn', entityIds: despawned } as EntityDespawnMessage);
+        }
+        if (spawned.length > 0) {
+            this.sendTo(client, { type: 'entity_spawn', entities: spawned } as EntitySpawnMessage);
+        }
+
+        // Entered players and spawned entities were already sent in full, so only include the rest
+        const changed: PlayerState[] = [];
+        new Set([...updatedPlayers, ...updatedAttributes.keys()]).forEach(id => {
+            const state = current.has(id) && previous.has(id) ? this.getPlayerStateFor(client, id, updatedAttributes.get(id) ?? []) : null;
+            if (state && (updatedPlayers.has(id) || state.attrs)) {
+                changed.push(state);
+            }
+        });
+        const changedEntities: EntityState[] = [];
+        updatedEntities.forEach(id => {
+            const state = currentEntities.has(id) && previousEntities.has(id) ? this.game.getEntityState(id) : null;
+            if (state) {
+                changedEntities.push(state);
+            }
+        });
+        if (changed.length > 0 || changedEntities.length > 0) {
+            client.seq++;
+            const delta = { type: 'delta', seq: client.seq, tick: this.currentTick, players: changed } as DeltaUpdateMessage;
+            if (changedEntities.length > 0) {
+                delta.entities = changedEntities;
+            }
+            this.sendTo(client, delta);
+        }
+    }
+
+    /**
+     * Runs one tick of the scheduler, timing it and the time since the previous one for the metrics.
+     */
+    private runTick(step: number): void {
+        const started = performance.now();
+        if (this.lastTickStart !== null) {
+            serverMetrics.tickInterval.observe((started - this.lastTickStart) / 1000);
+        }
+        this.lastTickStart = started;
+        this.tick(step);
+        const elapsed = performance.now() - started;
+        serverMetrics.tickDuration.observe(elapsed / 1000);
+        if (elapsed > step) {
+            serverMetrics.tickOverruns.inc();
+        }
+    }
+
+    /**
+     * Room update loop. Each tick advances the game by one fixed step and adds what
+     * changed to every client's pending changes. Clients whose send is due then get
+     * the players and entities that entered or left their area of interest and a
+     * delta of the visible ones that changed, or a full keyframe once
+     * `keyframeInterval` ticks have passed since their last one, so clients that
+     * missed a delta converge on their own. A player who changed team gets a
+     * keyframe at its next send, since which 'team' attributes it may see changed;
+     * its former teammates keep its old ones until their next keyframe. A client whose send buffer is over
+     * `sendBufferLimit` is skipped and its send interval doubled, up to
+     * `maxSendInterval`; once the buffer drains it steps back to `sendRate`.
+     */
+    private tick(step: number): void {
+        const tick = this.currentTick;
+        this.game.update(step); // Ticks entity components
+        // Always drain change tracking so the next changes are relative to this tick
+        const updatedPlayers = this.game.getUpdatedPlayerStates();
+        const updatedEntities = this.game.getUpdatedEntityStates();
+        const updatedAttributes = this.game.getUpdatedPlayerAttributes();
+        if (this.clients.size === 0) {
+            return;
+        }
+        if (this.recorder) {
+            // Recordings are for spectators, so they carry only the attributes everyone may see
+            const players = this.game.getAllPlayerStates().map(state => {
+                const attrs = this.game.getVisibleAttributes(state.id, null);
+                return attrs ? { ...state, attrs } : state;
+            });
+            this.recorder.recordState(players, this.game.getAllEntityStates(), tick, getTimecode());
+        }
+
+        const baseInterval = this.toTicks(this.config.sendRate);
+        const maxInterval = Math.max(baseInterval, this.toTicks(this.config.maxSendInterval));
+        this.clients.forEach(client => {
+            if (client.readyState !== WebSocket.OPEN) {
+                return;
+            }
+            // Changes pile up until the client's next send, so throttled clients miss none
+            updatedPlayers.forEach(state => client.pendingPlayers.add(state.id));
+            updatedEntities.forEach(state => client.pendingEntities.add(state.id));
+            updatedAttributes.forEach((keys, playerId) => {
+                const pending = client.pendingAttributes.get(playerId) ?? new Set<string>();
+                keys.forEach(key => pending.add(key));
+                client.pendingAttributes.set(playerId, pending);
+            });
+            if (updatedAttributes.get(client.id)?.includes(TEAM_ATTRIBUTE)) {
+                client.keyframeTick = tick - this.config.keyframeInterval;
+            }
+            if (tick < client.nextSendTick) {
+                return;
+            }
+
+            // Rates are in ticks, so they may need clamping after a tick rate change
+            client.sendInterval = Math.min(maxInterval, Math.max(baseInterval, client.sendInterval));
+            if (client.bufferedAmount > this.config.sendBufferLimit) {
+                client.sendInterval = Math.min(maxInterval, client.sendInterval * 2);
+                client.nextSendTick = tick + client.sendInterval;
+                serverMetrics.stateSendsSkipped.inc();
+                return;
+            }
+            if (client.bufferedAmount <= this.config.sendBufferLimit / 4) {
+                client.sendInterval = Math.max(baseInterval, client.sendInterval - 1);
+            }
+            client.nextSendTick = tick + client.sendInterval;
+
+            if (tick - client.keyframeTick >= this.config.keyframeInterval) {
+                client.seq++;
+                this.sendTo(client, this.createKeyframe(client));
+            } else {
+                this.sendInterestUpdate(client);
+            }
+        });
+    }
+}
+
+/**
+ * Creates, looks up and removes rooms, and decides how display names are shared between them.
+ */
+export class RoomManager {
+    private rooms: Map<string, Room>; // Maps room ID to Room instance
+    private roomConfig: RoomConfig;
+    private readonly maxRooms: number;
+    private readonly sharedPlayerNames: Set<string> | undefined; // Server-wide name registry, if names are not per-room
+    private readonly nameReservations: Map<string, string>; // Names reserved for authenticated users in every room
+    private readonly storage: StorageAdapter | null; // Where room snapshots are kept, or null if rooms are not persisted
+    private readonly messages: MessageRegistry; // Custom message types, shared with every room
+    private readonly recording: RecordingConfig | null; // Which rooms' sessions are recorded and where, or null if sessions are not recorded
+    public readonly defaultRoomId: string;
+
+    /**
+     * Creates a new RoomManager along with its default room.
+     * @param {RoomConfig} roomConfig - Settings used for every room this manager creates.
+     * @param {NameScope} nameScope - Whether names are unique per room or across the server.
+     * @param {number} maxRooms - Maximum number of rooms that may exist at once.
+     * @param {string} defaultRoomId - ID of the permanent room new connections join.
+     * @param {StorageAdapter | null} storage - Where room snapshots are restored from and saved to (optional, rooms start empty if not provided).
+     * @param {MessageRegistry} messages - Custom message types that room broadcasts are checked against (optional, built-in messages only if not provided).
+     * @param {RecordingConfig | null} recording - Which rooms' sessions are recorded and where (optional, no recording if not provided).
+     */
+    constructor(roomConfig: RoomConfig, nameScope: NameScope = 'room', maxRooms: number = 100, defaultRoomId: string = 'lobby', storage: StorageAdapter | null = null, messages: MessageRegistry = new MessageRegistry(), recording: RecordingConfig | null = null) {
+        this.rooms = new Map<string, Room>();
+        this.roomConfig = roomConfig;
+        this.maxRooms = maxRooms;
+        this.sharedPlayerNames = nameScope === 'server' ? new Set<string>() : undefined;
+        this.nameReservations = new Map<string, string>();
+        this.storage = storage;
+        this.messages = messages;
+        this.recording = recording;
+        if (recording) {
+            mkdirSync(recording.dir, { recursive: true });
+        }
+        this.defaultRoomId = defaultRoomId;
+        this.createRoom(defaultRoomId);
+        console.log(`Room manager initialized (names unique per ${nameScope}).`);
+    }
+
+    /**
+     * Reserves a display name for an authenticated user in every room. The
+     * first user to claim a name keeps it for the lifetime of the server.
+     * @param {string} name - The name to reserve.
+     * @param {string} userId - The user ID of the verified identity.
+     * @returns {boolean} True if the name is now reserved for the user, false if another user holds it.
+     */
+    public reserveName(name: string, userId: string): boolean {
+        const reservedFor = this.nameReservations.get(name);
+        if (reservedFor !== undefined) {
+            return reservedFor === userId;
+        }
+        this.nameReservations.set(name, userId);
+        return true;
+    }
+
+    /**
+     * Gets a room by ID.
+     * @param {string} roomId - The ID of the room.
+     * @returns {Room | undefined} The room, or undefined if it does not exist.
+     */
+    public getRoom(roomId: string): Room | undefined {
+        return this.rooms.get(roomId);
+    }
+
+    /**
+     * Gets an existing room or creates it if there is capacity for another room.
+     * @param {string} roomId - The ID of the room.
+     * @returns {Room | null} The room, or null if it does not exist and the room limit is reached.
+     */
+    public getOrCreateRoom(roomId: string): Room | null {
+        const existing = this.rooms.get(roomId);
+        if (existing) {
+            return existing;
+        }
+        if (this.rooms.size >= this.maxRooms) {
+            console.warn(`Cannot create room ${roomId}: room limit of ${this.maxRooms} reached.`);
+            return null;
+        }
+        return this.createRoom(roomId);
+    }
+
+    /**
+     * Creates and starts a new room, then restores its last snapshot in the background.
+     */
+    private createRoom(roomId: string): Room {
+        const room = new Room(roomId, this.roomConfig, this.sharedPlayerNames, this.nameReservations, this.messages);
+        this.rooms.set(roomId, room);
+        room.start();
+        if (this.recording?.rooms.includes(roomId)) {
+            room.startRecording(this.recording);
+        }
+        console.log(`Room ${roomId} created.`);
+        this.storage?.loadWorld(roomId).then(snapshot => {
+            // Skip rooms removed while the snapshot was loading
+            if (snapshot && this.rooms.get(roomId) === room) {
+                room.restoreWorldSnapshot(snapshot);
+            }
+        }).catch(error => console.error(`Failed to restore room ${roomId}:`, error));
+        return room;
+    }
+
+    /**
+     * Saves a snapshot of a room, logging rather than throwing on failure.
+     */
+    private saveRoom(room: Room): Promise<void> {
+        if (!this.storage) {
+            return Promise.resolve();
+        }
+        return this.storage.saveWorld(room.createWorldSnapshot())
+            .catch(error => console.error(`Failed to save room ${room.id}:`, error));
+    }
+
+    /**
+     * Saves a snapshot of every room.
+     * @returns {Promise<void>} Resolves once every snapshot is written (or failed and was logged).
+     */
+    public saveAllRooms(): Promise<void> {
+        return Promise.all(Array.from(this.rooms.values()).map(room => this.saveRoom(room))).then(() => undefined);
+    }
+
+    /**
+     * Stops the tick loop of every room, e.g. on shutdown, and finishes their recordings. The rooms are kept.
+     * @returns {Promise<void>} Resolves once every recording is fully written.
+     */
+    public stopAll(): Promise<void> {
+        return Promise.all(Array.from(this.rooms.values()).map(room => room.stop())).then(() => undefined);
+    }
+
+    /**
+     * Removes a room if it is empty, stopping its tick loop. The default room is never removed.
+     * @param {string} roomId - The ID of the room.
+     * @returns {boolean} True if the room was removed.
+     */
+    public removeRoomIfEmpty(roomId: string): boolean {
+        const room = this.rooms.get(roomId);
+        if (!room || roomId === this.defaultRoomId || room.playerCount > 0) {
+            return false;
+        }
+        room.stop();
+        this.rooms.delete(roomId);
+        this.saveRoom(room);
+        console.log(`Room ${roomId} removed.`);
+        return true;
+    }
+
+    /**
+     * Changes the time between ticks of every room, and of rooms created later.
+     * @param {number} tickRate - Milliseconds between simulation ticks.
+     */
+    public setTickRate(tickRate: number): void {
+        this.roomConfig = { ...this.roomConfig, tickRate };
+        this.rooms.forEach(room => room.setTickRate(tickRate));
+    }
+
+    /**
+     * Gets every room.
+     * @returns {Room[]} All rooms.
+     */
+    public getRooms(): Room[] {
+        return Array.from(this.rooms.values());
+    }
+
+    /**
+     * Lists every room.
+     * @returns {RoomInfo[]} Summaries of all rooms.
+     */
+    public listRooms(): RoomInfo[] {
+        return Array.from(this.rooms.values()).map(room => room.getInfo());
+    }
+}
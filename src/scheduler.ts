@@ -0,0 +1,112 @@
+// Fixed-timestep tick scheduler. Each tick is due a whole number of steps after
+// the scheduler started, so timer lateness does not add up into drift.
+
+const DEFAULT_MAX_CATCH_UP = 5; // Most ticks run back to back when the scheduler falls behind
+
+/**
+ * Runs a callback at a fixed timestep and counts the ticks. A tick that fires
+ * late does not push the following ones back; if the process stalls, the missed
+ * ticks are run back to back, up to `maxCatchUp` of them, and the rest are dropped.
+ */
+export class TickScheduler {
+    private step: number;
+    private readonly maxCatchUp: number;
+    private readonly onTick: (tick: number, step: number) => void;
+    private readonly onSkip: ((count: number) => void) | null;
+    private timer: NodeJS.Timeout | null = null;
+    private nextTickAt = 0; // performance.now() time at which the next tick is due
+    private tick = 0; // Ticks run so far
+
+    /**
+     * Creates a new TickScheduler. Nothing runs until `start()` is called.
+     * @param {number} step - Milliseconds between ticks.
+     * @param {Function} onTick - Called on every tick with the tick's number (starting at 1) and the step (ms).
+     * @param {Function} onSkip - Called with the number of ticks dropped after a stall (optional).
+     * @param {number} maxCatchUp - Most ticks run back to back after a stall (optional).
+     */
+    constructor(step: number, onTick: (tick: number, step: number) => void, onSkip: ((count: number) => void) | null = null, maxCatchUp: number = DEFAULT_MAX_CATCH_UP) {
+        this.step = step;
+        this.onTick = onTick;
+        this.onSkip = onSkip;
+        this.maxCatchUp = maxCatchUp;
+    }
+
+    /**
+     * Gets the number of the last tick run.
+     * @returns {number} The tick number, 0 before the first tick.
+     */
+    public get currentTick(): number {
+        return this.tick;
+    }
+
+    /**
+     * Checks whether the scheduler is running.
+     * @returns {boolean} True between `start()` and `stop()`.
+     */
+    public isRunning(): boolean {
+        return this.timer !== null;
+    }
+
+    /**
+     * Starts ticking; the first tick is one step from now. The tick count carries on from where it stopped.
+     */
+    public start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.nextTickAt = performance.now() + this.step;
+        this.schedule();
+    }
+
+    /**
+     * Stops ticking. Safe to call from within a tick, as is `setStep()`.
+     */
+    public stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Changes the step. A running scheduler ticks next one new step from now.
+     * @param {number} step - Milliseconds between ticks.
+     */
+    public setStep(step: number): void {
+        this.step = step;
+        if (this.timer) {
+            this.stop();
+            this.start();
+        }
+    }
+
+    /**
+     * Arms the timer for the next due tick.
+     */
+    private schedule(): void {
+        this.timer = setTimeout(() => this.run(), Math.max(0, this.nextTickAt - performance.now()));
+    }
+
+    /**
+     * Runs every tick that is due, dropping the excess after a stall, then schedules the next one.
+     */
+    private run(): void {
+        const timer = this.timer;
+        let due = Math.floor((performance.now() - this.nextTickAt) / this.step) + 1;
+        if (due > this.maxCatchUp) {
+            const skipped = due - this.maxCatchUp;
+            this.nextTickAt += skipped * this.step;
+            due = this.maxCatchUp;
+            this.onSkip?.(skipped);
+        }
+        for (let i = 0; i < due; i++) {
+            this.tick++;
+            this.nextTickAt += this.step;
+            this.onTick(this.tick, this.step);
+            if (this.timer !== timer) {
+                return; // Stopped or restarted by the tick
+            }
+        }
+        this.schedule();
+    }
+}
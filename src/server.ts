@@ -1,172 +1,169 @@
-// Main WebSocket server implementation, handling connections, messages, and game state.
-import { WebSocket, WebSocketServer } from 'ws';
-import { v4 as uuidv4 } from 'uuid'; // For generating unique player IDs
-import { encodeServerMessage, decodeClientMessage, ClientMessage, ServerMessage, PlayerConnectedMessage, PlayerDisconnectedMessage, StateUpdateMessage, NameAcceptedMessage, NameRejectedMessage } from './protocol';
-import { Game } from './game';
-import { PlayerState } from './player';
+// Entry point: configures a KeystoneServer from environment variables and runs it until SIGTERM/SIGINT.
+import { PROTOCOL_FORMATS, ProtocolFormat } from './protocol';
+import { DEFAULT_INTEREST_RADIUS, DEFAULT_MOVEMENT_CONFIG, ROTATION_MODES, RotationMode } from './game';
+import { DEFAULT_ROOM_CONFIG, NameScope } from './room';
+import { loadLevel } from './collision';
+import { DEFAULT_CHAT_CONFIG, createWordListFilter } from './chat';
+import { DEFAULT_RATE_LIMITS } from './ratelimit';
+import { createJwtVerifier } from './auth';
+import { FileStorage } from './storage';
+import { DEFAULT_RECORDING_CONFIG } from './recording';
+import { KeystoneServer } from './keystone';
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 8080;
-const GAME_TICK_RATE = 1000 / 60; // 4 updates per second
-
-interface CustomWebSocket extends WebSocket {
-    id: string; // Add a unique ID to each WebSocket connection
+const PROTOCOL_MODE = (process.env.PROTOCOL_MODE ?? 'json') as ProtocolFormat; // Default format for clients that do not negotiate: 'json', 'msgpack' or 'binary'
+const HELLO_TIMEOUT = process.env.HELLO_TIMEOUT ? parseInt(process.env.HELLO_TIMEOUT) : 500; // How long to wait for a `hello` before using the default format (ms)
+const GAME_TICK_RATE = 1000 / 60; // 60 simulation ticks per second
+const SEND_RATE = process.env.SEND_RATE ? parseFloat(process.env.SEND_RATE) : DEFAULT_ROOM_CONFIG.sendRate; // Time between state sends to each client that keeps up (ms, rounded to whole ticks)
+const MAX_SEND_INTERVAL = process.env.MAX_SEND_INTERVAL ? parseFloat(process.env.MAX_SEND_INTERVAL) : DEFAULT_ROOM_CONFIG.maxSendInterval; // Longest time between state sends to a client on a slow link (ms)
+const SEND_BUFFER_LIMIT = process.env.SEND_BUFFER_LIMIT ? parseInt(process.env.SEND_BUFFER_LIMIT) : DEFAULT_ROOM_CONFIG.sendBufferLimit; // Bytes queued on a connection above which its state sends are throttled
+const KEYFRAME_INTERVAL = process.env.KEYFRAME_INTERVAL ? parseInt(process.env.KEYFRAME_INTERVAL) : 120; // Ticks between full state keyframes
+const INTEREST_RADIUS = process.env.INTEREST_RADIUS ? parseFloat(process.env.INTEREST_RADIUS) : DEFAULT_INTEREST_RADIUS; // X/Z distance within which players see each other
+const ROOM_MAX_PLAYERS = process.env.ROOM_MAX_PLAYERS ? parseInt(process.env.ROOM_MAX_PLAYERS) : DEFAULT_ROOM_CONFIG.maxPlayers; // Player cap per room
+const MAX_ROOMS = process.env.MAX_ROOMS ? parseInt(process.env.MAX_ROOMS) : 100; // Maximum number of rooms at once
+const DEFAULT_ROOM_ID = 'lobby'; // Permanent room new connections join
+const NAME_SCOPE: NameScope = process.env.NAME_SCOPE === 'server' ? 'server' : 'room'; // Whether names are unique per room or server-wide
+const MAX_SPEED = process.env.MAX_SPEED ? parseFloat(process.env.MAX_SPEED) : DEFAULT_MOVEMENT_CONFIG.maxSpeed; // Max X/Z distance a player may move per second
+const WORLD_HALF_EXTENT = process.env.WORLD_HALF_EXTENT ? parseFloat(process.env.WORLD_HALF_EXTENT) : DEFAULT_MOVEMENT_CONFIG.bounds.maxX; // Playable area spans -extent..extent on X and Z
+const VERTICAL_MOVEMENT = process.env.VERTICAL_MOVEMENT === 'true'; // Whether moves may change Y; otherwise players stay on the X/Z plane
+const MAX_VERTICAL_SPEED = process.env.MAX_VERTICAL_SPEED ? parseFloat(process.env.MAX_VERTICAL_SPEED) : DEFAULT_MOVEMENT_CONFIG.maxVerticalSpeed; // Max Y distance a player may move per second
+const WORLD_MIN_Y = process.env.WORLD_MIN_Y ? parseFloat(process.env.WORLD_MIN_Y) : undefined; // Lowest Y a player may reach in a vertical world (optional)
+const WORLD_MAX_Y = process.env.WORLD_MAX_Y ? parseFloat(process.env.WORLD_MAX_Y) : undefined; // Highest Y a player may reach in a vertical world (optional)
+const TRACK_VELOCITY = process.env.TRACK_VELOCITY === 'true'; // Whether player states carry a velocity
+const ROTATION_MODE = (process.env.ROTATION_MODE ?? 'yaw') as RotationMode; // How players are oriented: 'yaw', 'pitch_yaw' or 'quaternion'
+const LEVEL_FILE = process.env.LEVEL_FILE; // JSON level with static colliders (and optionally bounds and player radius); an empty world if unset
+const PLAYER_RADIUS = process.env.PLAYER_RADIUS ? parseFloat(process.env.PLAYER_RADIUS) : undefined; // Player collision radius, overriding the level's
+const MAX_VIOLATIONS = process.env.MAX_VIOLATIONS ? parseInt(process.env.MAX_VIOLATIONS) : 10; // Invalid messages tolerated per window before disconnecting
+const VIOLATION_WINDOW = process.env.VIOLATION_WINDOW ? parseInt(process.env.VIOLATION_WINDOW) : 10000; // Length of the violation window (ms)
+const SESSION_GRACE_PERIOD = process.env.SESSION_GRACE_PERIOD ? parseInt(process.env.SESSION_GRACE_PERIOD) : 30000; // How long a dropped player is kept for resuming (ms, 0 disables)
+const RESUME_SECRET = process.env.RESUME_SECRET; // Secret for signing resume tokens; random per process if unset
+const STORAGE_DIR = process.env.STORAGE_DIR ?? 'data'; // Directory for player profiles and room snapshots; empty disables persistence
+const AUTOSAVE_INTERVAL = process.env.AUTOSAVE_INTERVAL ? parseInt(process.env.AUTOSAVE_INTERVAL) : 30000; // Time between saves of every profile and room (ms)
+const SHUTDOWN_DEADLINE = process.env.SHUTDOWN_DEADLINE ? parseInt(process.env.SHUTDOWN_DEADLINE) : 10000; // Longest a shutdown may take before the process exits anyway (ms)
+const SHUTDOWN_RECONNECT_DELAY = process.env.SHUTDOWN_RECONNECT_DELAY ? parseInt(process.env.SHUTDOWN_RECONNECT_DELAY) : 5000; // How long clients are told to wait before reconnecting (ms)
+const SHUTDOWN_RECONNECT_URL = process.env.SHUTDOWN_RECONNECT_URL ?? null; // Where clients are told to reconnect, e.g. a replacement server; the same address if unset
+const AUTH_JWT_SECRET = process.env.AUTH_JWT_SECRET; // HS256 secret for verifying client JWTs; tokens are not checked if unset
+const AUTH_JWT_ISSUER = process.env.AUTH_JWT_ISSUER; // Required `iss` claim (optional)
+const AUTH_JWT_AUDIENCE = process.env.AUTH_JWT_AUDIENCE; // Required `aud` claim (optional)
+const AUTH_REQUIRED = process.env.AUTH_REQUIRED === 'true'; // Whether anonymous connections are refused
+const BANNED_USERS = process.env.BANNED_USERS ? process.env.BANNED_USERS.split(',').map(id => id.trim()).filter(Boolean) : []; // Comma-separated user IDs that may not connect
+const CHAT_MAX_LENGTH = process.env.CHAT_MAX_LENGTH ? parseInt(process.env.CHAT_MAX_LENGTH) : DEFAULT_CHAT_CONFIG.maxLength; // Longest chat line accepted (characters)
+const CHAT_HISTORY_SIZE = process.env.CHAT_HISTORY_SIZE ? parseInt(process.env.CHAT_HISTORY_SIZE) : DEFAULT_CHAT_CONFIG.historySize; // Global chat lines replayed to players joining a room
+const CHAT_PROXIMITY_RADIUS = process.env.CHAT_PROXIMITY_RADIUS ? parseFloat(process.env.CHAT_PROXIMITY_RADIUS) : DEFAULT_CHAT_CONFIG.proximityRadius; // X/Z distance within which proximity chat is heard
+const CHAT_BLOCKED_WORDS = process.env.CHAT_BLOCKED_WORDS ? process.env.CHAT_BLOCKED_WORDS.split(',').map(word => word.trim()) : []; // Comma-separated words masked in chat
+const MAX_MUTED_PLAYERS = 100; // Mute list size per connection
+const PING_INTERVAL = Math.max(1000, process.env.PING_INTERVAL ? parseInt(process.env.PING_INTERVAL) : 2000); // Time between latency pings (ms, at least 1000)
+const MAX_FRAME_SIZE = process.env.MAX_FRAME_SIZE ? parseInt(process.env.MAX_FRAME_SIZE) : 4096; // Larger frames close the connection with 1009 (bytes)
+const MAX_CONNECTIONS_PER_IP = process.env.MAX_CONNECTIONS_PER_IP ? parseInt(process.env.MAX_CONNECTIONS_PER_IP) : 8; // Simultaneous connections allowed from one address (0 for no limit)
+const MOVE_RATE_LIMIT = process.env.MOVE_RATE_LIMIT ? parseFloat(process.env.MOVE_RATE_LIMIT) : DEFAULT_RATE_LIMITS.move.refillPerSecond; // Sustained moves per second per connection
+const MONITORING = process.env.MONITORING !== 'false'; // Whether /healthz, /readyz and /metrics are served
+const MONITORING_PORT = process.env.MONITORING_PORT ? parseInt(process.env.MONITORING_PORT) : null; // Separate port for the monitoring endpoints; the game port if unset
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || null; // Token for the /admin/ endpoints; without it only users with ADMIN_ROLE may use them
+const ADMIN_ROLE = process.env.ADMIN_ROLE || 'admin'; // Role in a verified JWT that grants access to the /admin/ endpoints
+const AUDIT_LOG_FILE = process.env.AUDIT_LOG_FILE || null; // File operator actions are appended to; console only if unset
+const RECORDING_DIR = process.env.RECORDING_DIR || null; // Directory room sessions are recorded to for replay; nothing is recorded if unset
+const RECORDING_ROOMS = process.env.RECORDING_ROOMS ? process.env.RECORDING_ROOMS.split(',').map(id => id.trim()).filter(Boolean) : [DEFAULT_ROOM_ID]; // Comma-separated IDs of the rooms to record
+const RECORDING_MAX_FILE_BYTES = process.env.RECORDING_MAX_FILE_BYTES ? parseInt(process.env.RECORDING_MAX_FILE_BYTES) : DEFAULT_RECORDING_CONFIG.maxFileBytes; // Size after which a recording continues in a new file (bytes)
+const RECORDING_MAX_FILE_DURATION = process.env.RECORDING_MAX_FILE_DURATION ? parseInt(process.env.RECORDING_MAX_FILE_DURATION) : DEFAULT_RECORDING_CONFIG.maxFileDuration; // Time after which a recording continues in a new file (ms)
+const RECORDING_MAX_FILES = process.env.RECORDING_MAX_FILES ? parseInt(process.env.RECORDING_MAX_FILES) : DEFAULT_RECORDING_CONFIG.maxFiles; // Recordings kept in RECORDING_DIR; the oldest are deleted beyond it
+const MAX_THROTTLED = process.env.MAX_THROTTLED ? parseInt(process.env.MAX_THROTTLED) : 20; // Rate-limited messages tolerated per violation window before disconnecting
+
+if (!PROTOCOL_FORMATS.includes(PROTOCOL_MODE)) {
+    throw new Error(`PROTOCOL_MODE must be one of ${PROTOCOL_FORMATS.join(', ')}.`);
 }
-
-const wss = new WebSocketServer({ port: PORT });
-const game = new Game();
-
-console.log(`WebSocket server starting on port ${PORT}`);
-
-// Map to store WebSocket connections by player ID
-const clients = new Map<string, CustomWebSocket>();
-
-/**
- * Broadcasts a server message to all connected clients.
- * @param {ServerMessage} message - The message object to send.
- */
-function broadcast(message: ServerMessage): void {
-    const encodedMessage = encodeServerMessage(message);
-    clients.forEach(ws => {
-        if (ws.readyState === WebSocket.OPEN) {
-            ws.send(encodedMessage);
-        }
-    });
+if (!ROTATION_MODES.includes(ROTATION_MODE)) {
+    throw new Error(`ROTATION_MODE must be one of ${ROTATION_MODES.join(', ')}.`);
 }
 
-/**
- * Sends a server message to a specific player by their ID.
- * @param {string} playerId - The ID of the player to send the message to.
- * @param {ServerMessage} message - The message object to send.
- * @returns {boolean} - Returns true if message was sent successfully, false if player not found or connection closed.
- */
-function sendToPlayer(playerId: string, message: ServerMessage): boolean {
-    const client = clients.get(playerId);
-    
-    if (!client) {
-        console.warn(`Attempted to send message to non-existent player: ${playerId}`);
-        return false;
-    }
-    
-    if (client.readyState !== WebSocket.OPEN) {
-        console.warn(`Attempted to send message to player with closed connection: ${playerId}`);
-        return false;
-    }
-    
-    try {
-        const encodedMessage = encodeServerMessage(message);
-        client.send(encodedMessage);
-        return true;
-    } catch (error) {
-        console.error(`Failed to send message to player ${playerId}:`, error);
-        return false;
-    }
+// A broken level file should stop the server rather than start it with an empty world
+const level = LEVEL_FILE ? loadLevel(LEVEL_FILE) : null;
+if (level) {
+    console.log(`Loaded level ${LEVEL_FILE} with ${level.colliders.length} colliders.`);
 }
 
-wss.on('connection', ws => {
-    // Generate a unique ID for the new connection
-    const playerId = uuidv4();
-    (ws as CustomWebSocket).id = playerId;
-    clients.set(playerId, ws as CustomWebSocket);
-
-    console.log(`Client connected: ${playerId}`);
-
-    // Add player to the game state
-    const initialPlayerState = game.addPlayer(playerId, Math.random() * 50, 1, 0); // Random initial X, default Z and rotation
-
-    // Send the new client their assigned ID directly
-    ws.send(encodeServerMessage({ type: 'id_assignment', playerId } as any)); // You'll need to add this type to your protocol
-    
-    // Send the new client the initial game state
-    ws.send(encodeServerMessage({ type: 'state', players: game.getAllPlayerStates() } as StateUpdateMessage));
-
-    // Broadcast to all OTHER clients that a new player has connected (excluding the new client)
-    const connectMessage = { type: 'connected', playerId: playerId } as PlayerConnectedMessage;
-    const encodedConnectMessage = encodeServerMessage(connectMessage);
-    clients.forEach((client, clientId) => {
-        if (clientId !== playerId && client.readyState === WebSocket.OPEN) {
-            client.send(encodedConnectMessage);
-        }
-    });
-
-    ws.on('message', message => {
-        // Ensure message is a Buffer before decoding
-        if (message instanceof Buffer) {
-            const decodedMessage = decodeClientMessage(new Uint8Array(message));
-
-            if (!decodedMessage) {
-                console.warn(`Received malformed message from ${playerId}.`);
-                return;
-            }
-
-            // Handle different client message types
-            switch (decodedMessage.type) {
-                case 'move':
-                    const moveMsg = decodedMessage;
-                    // Validate playerId (ensure client can only move their own player)
-                    if (moveMsg.type === 'move' && moveMsg.x !== undefined && moveMsg.z !== undefined && moveMsg.rot !== undefined) {
-                        game.updatePlayerPosition(playerId, moveMsg.x, moveMsg.z, moveMsg.rot);
-                        // The game loop will broadcast the state,
-                        // so no need to broadcast immediately here for every move.
-                    }
-                    break;
-                case 'set_name':
-                    const setNameMsg = decodedMessage;
-                    if (setNameMsg.name && typeof setNameMsg.name === 'string') {
-                        const nameSet = game.setPlayerName(playerId, setNameMsg.name);
-                        if (nameSet) {
-                            sendToPlayer(playerId, { type: 'name_accepted' } as NameAcceptedMessage);
-                            console.log(`Player ${playerId} successfully set name to "${setNameMsg.name}"`);
-                        } else {
-                            sendToPlayer(playerId, { 
-                                type: 'name_rejected', 
-                                reason: 'Name already taken' 
-                            } as NameRejectedMessage);
-                            console.log(`Player ${playerId} failed to set name "${setNameMsg.name}" - already taken`);
-                        }
-                    } else {
-                        sendToPlayer(playerId, { 
-                            type: 'name_rejected', 
-                            reason: 'Invalid name format' 
-                        } as NameRejectedMessage);
-                        console.log(`Player ${playerId} sent invalid name format`);
-                    }
-                    break;
-                default:
-                    console.warn(`Unknown message type received from ${playerId}:`, decodedMessage);
-            }
-        } else {
-            console.warn(`Received non-binary message from ${playerId}. Ignoring.`);
-        }
-    });
-
-    ws.on('close', () => {
-        console.log(`Client disconnected: ${playerId}`);
-        clients.delete(playerId);
-        game.removePlayer(playerId);
-        // Broadcast to all remaining clients that a player has disconnected
-        broadcast({ type: 'disconnected', playerId } as PlayerDisconnectedMessage);
-    });
+const server = new KeystoneServer({
+    port: PORT,
+    protocolMode: PROTOCOL_MODE,
+    helloTimeout: HELLO_TIMEOUT,
+    room: {
+        maxPlayers: ROOM_MAX_PLAYERS,
+        tickRate: GAME_TICK_RATE,
+        sendRate: SEND_RATE,
+        maxSendInterval: MAX_SEND_INTERVAL,
+        sendBufferLimit: SEND_BUFFER_LIMIT,
+        keyframeInterval: KEYFRAME_INTERVAL,
+        interestRadius: INTEREST_RADIUS,
+        movement: {
+            maxSpeed: MAX_SPEED,
+            clockTolerance: DEFAULT_MOVEMENT_CONFIG.clockTolerance,
+            maxMoveInterval: DEFAULT_MOVEMENT_CONFIG.maxMoveInterval,
+            bounds: { ...(level?.bounds ?? { minX: -WORLD_HALF_EXTENT, maxX: WORLD_HALF_EXTENT, minZ: -WORLD_HALF_EXTENT, maxZ: WORLD_HALF_EXTENT }), minY: WORLD_MIN_Y, maxY: WORLD_MAX_Y },
+            playerRadius: PLAYER_RADIUS ?? level?.playerRadius ?? DEFAULT_MOVEMENT_CONFIG.playerRadius,
+            colliders: level?.colliders ?? [],
+            vertical: VERTICAL_MOVEMENT,
+            maxVerticalSpeed: MAX_VERTICAL_SPEED,
+            velocity: TRACK_VELOCITY,
+            rotation: ROTATION_MODE,
+        },
+        chat: {
+            maxLength: CHAT_MAX_LENGTH,
+            historySize: CHAT_HISTORY_SIZE,
+            proximityRadius: CHAT_PROXIMITY_RADIUS,
+            filter: CHAT_BLOCKED_WORDS.length > 0 ? createWordListFilter(CHAT_BLOCKED_WORDS) : null,
+        },
+    },
+    maxRooms: MAX_ROOMS,
+    defaultRoomId: DEFAULT_ROOM_ID,
+    nameScope: NAME_SCOPE,
+    maxViolations: MAX_VIOLATIONS,
+    violationWindow: VIOLATION_WINDOW,
+    sessionGracePeriod: SESSION_GRACE_PERIOD,
+    resumeSecret: RESUME_SECRET ?? null,
+    authVerifier: AUTH_JWT_SECRET ? createJwtVerifier(AUTH_JWT_SECRET, { issuer: AUTH_JWT_ISSUER, audience: AUTH_JWT_AUDIENCE }) : null,
+    authRequired: AUTH_REQUIRED,
+    bannedUsers: BANNED_USERS,
+    maxMutedPlayers: MAX_MUTED_PLAYERS,
+    pingInterval: PING_INTERVAL,
+    maxFrameSize: MAX_FRAME_SIZE,
+    maxConnectionsPerIp: MAX_CONNECTIONS_PER_IP,
+    rateLimits: { ...DEFAULT_RATE_LIMITS, move: { capacity: MOVE_RATE_LIMIT, refillPerSecond: MOVE_RATE_LIMIT } },
+    maxThrottled: MAX_THROTTLED,
+    // Anonymous profiles are keyed by resume token, so they only survive a restart if RESUME_SECRET is set
+    storage: STORAGE_DIR ? new FileStorage(STORAGE_DIR) : null,
+    autosaveInterval: AUTOSAVE_INTERVAL,
+    reconnectDelay: SHUTDOWN_RECONNECT_DELAY,
+    reconnectUrl: SHUTDOWN_RECONNECT_URL,
+    monitoring: MONITORING,
+    monitoringPort: MONITORING_PORT,
+    adminToken: ADMIN_TOKEN,
+    adminRole: ADMIN_ROLE,
+    auditLogFile: AUDIT_LOG_FILE,
+    recording: RECORDING_DIR ? {
+        dir: RECORDING_DIR,
+        rooms: RECORDING_ROOMS,
+        maxFileBytes: RECORDING_MAX_FILE_BYTES,
+        maxFileDuration: RECORDING_MAX_FILE_DURATION,
+        maxFiles: RECORDING_MAX_FILES,
+    } : null,
+});
 
-    ws.on('error', error => {
-        console.error(`WebSocket error for client ${playerId}:`, error);
-        clients.delete(playerId);
-        game.removePlayer(playerId);
-        // Inform others of disconnection due to error
-        broadcast({ type: 'disconnected', playerId } as PlayerDisconnectedMessage);
-    });
+server.start().then(() => console.log('WebSocket server is running.'), error => {
+    console.error('Failed to start the server:', error);
+    process.exit(1);
 });
 
 /**
- * Game update loop. This periodically broadcasts the full game state
- * to all connected clients. This helps reduce bandwidth by not sending
- * updates on every single client move, but rather in fixed intervals.
+ * Stops the server and exits. Exits anyway once SHUTDOWN_DEADLINE has passed.
+ * @param {string} reason - Why the server is going down, as shown to clients.
  */
-setInterval(() => {
-    game.update(); // Placeholder for any complex game logic updates
-    const allPlayerStates: PlayerState[] = game.getAllPlayerStates();
-    if (allPlayerStates.length > 0) {
-        broadcast({ type: 'state', players: allPlayerStates } as StateUpdateMessage);
-    }
-}, GAME_TICK_RATE);
+async function shutdown(reason: string): Promise<void> {
+    setTimeout(() => {
+        console.warn(`Shutdown did not finish within ${SHUTDOWN_DEADLINE}ms; exiting.`);
+        process.exit(1);
+    }, SHUTDOWN_DEADLINE).unref();
+    await server.stop(reason);
+    process.exit(0);
+}
 
-console.log('WebSocket server is running.');
\ No newline at end of file
+process.on('SIGTERM', () => shutdown('Server restarting'));
+process.on('SIGINT', () => shutdown('Server shutting down'));
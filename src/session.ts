@@ -0,0 +1,61 @@
+// Signed resume tokens that let a client reclaim its player after a dropped connection.
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Issues and verifies resume tokens of the form `<playerId>.<issuedAt>.<signature>`,
+ * where the signature is an HMAC-SHA256 of the first two parts.
+ */
+export class ResumeTokenSigner {
+    private readonly secret: Buffer;
+    private readonly maxAge: number;
+
+    /**
+     * Creates a new ResumeTokenSigner.
+     * @param {string} secret - Signing secret (optional, a random one is generated if not provided, so tokens do not survive a restart).
+     * @param {number} maxAge - How long a token stays valid in milliseconds.
+     */
+    constructor(secret?: string, maxAge: number = 24 * 60 * 60 * 1000) {
+        this.secret = secret ? Buffer.from(secret) : randomBytes(32);
+        this.maxAge = maxAge;
+    }
+
+    /**
+     * Signs a token payload.
+     */
+    private sign(payload: string): string {
+        return createHmac('sha256', this.secret).update(payload).digest('base64url');
+    }
+
+    /**
+     * Issues a resume token for a player.
+     * @param {string} playerId - The ID of the player.
+     * @returns {string} The token.
+     */
+    public issue(playerId: string): string {
+        const payload = `${playerId}.${Date.now()}`;
+        return `${payload}.${this.sign(payload)}`;
+    }
+
+    /**
+     * Verifies a resume token.
+     * @param {string} token - The token presented by a client.
+     * @returns {string | null} The player ID it was issued for, or null if it is forged, malformed or expired.
+     */
+    public verify(token: string): string | null {
+        const parts = token.split('.');
+        if (parts.length !== 3) {
+            return null;
+        }
+        const [playerId, issuedAt, signature] = parts;
+        const expected = Buffer.from(this.sign(`${playerId}.${issuedAt}`));
+        const actual = Buffer.from(signature);
+        if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+            return null;
+        }
+        const age = Date.now() - Number(issuedAt);
+        if (!Number.isFinite(age) || age < 0 || age > this.maxAge) {
+            return null;
+        }
+        return playerId;
+    }
+}
@@ -0,0 +1,118 @@
+// Uniform grid spatial index over the X/Z plane for fast radius queries.
+
+/**
+ * Buckets entries into square cells on the X/Z plane so that radius queries
+ * only need to inspect the cells overlapping the query circle.
+ */
+export class SpatialGrid {
+    private readonly cellSize: number;
+    private cells: Map<string, Set<string>>; // Maps cell key to the IDs inside it
+    private entries: Map<string, { x: number; z: number; cell: string }>; // Maps ID to its position and cell key
+
+    /**
+     * Creates a new SpatialGrid.
+     * @param {number} cellSize - The width of each square cell. Works best when close to the typical query radius.
+     */
+    constructor(cellSize: number) {
+        if (!(cellSize > 0)) {
+            throw new Error(`SpatialGrid cell size must be positive, got ${cellSize}.`);
+        }
+        this.cellSize = cellSize;
+        this.cells = new Map<string, Set<string>>();
+        this.entries = new Map<string, { x: number; z: number; cell: string }>();
+    }
+
+    /**
+     * Computes the key of the cell containing the given coordinates.
+     */
+    private cellKey(cellX: number, cellZ: number): string {
+        return `${cellX},${cellZ}`;
+    }
+
+    /**
+     * Inserts an entry or moves it to a new position.
+     * @param {string} id - The ID of the entry.
+     * @param {number} x - The X coordinate.
+     * @param {number} z - The Z coordinate.
+     */
+    public upsert(id: string, x: number, z: number): void {
+        const cell = this.cellKey(Math.floor(x / this.cellSize), Math.floor(z / this.cellSize));
+        const existing = this.entries.get(id);
+
+        if (existing && existing.cell !== cell) {
+            this.removeFromCell(id, existing.cell);
+        }
+        if (!existing || existing.cell !== cell) {
+            let bucket = this.cells.get(cell);
+            if (!bucket) {
+                bucket = new Set<string>();
+                this.cells.set(cell, bucket);
+            }
+            bucket.add(id);
+        }
+        this.entries.set(id, { x, z, cell });
+    }
+
+    /**
+     * Removes an entry from the grid.
+     * @param {string} id - The ID of the entry to remove.
+     * @returns {boolean} True if the entry existed.
+     */
+    public remove(id: string): boolean {
+        const existing = this.entries.get(id);
+        if (!existing) {
+            return false;
+        }
+        this.removeFromCell(id, existing.cell);
+        this.entries.delete(id);
+        return true;
+    }
+
+    /**
+     * Removes an ID from a cell bucket, dropping the bucket once it is empty.
+     */
+    private removeFromCell(id: string, cell: string): void {
+        const bucket = this.cells.get(cell);
+        if (bucket) {
+            bucket.delete(id);
+            if (bucket.size === 0) {
+                this.cells.delete(cell);
+            }
+        }
+    }
+
+    /**
+     * Finds every entry within a radius of a point (inclusive).
+     * @param {number} x - The X coordinate of the centre.
+     * @param {number} z - The Z coordinate of the centre.
+     * @param {number} radius - The search radius.
+     * @returns {string[]} The IDs of the entries inside the circle.
+     */
+    public queryRadius(x: number, z: number, radius: number): string[] {
+        const result: string[] = [];
+        const radiusSq = radius * radius;
+        const minCellX = Math.floor((x - radius) / this.cellSize);
+        const maxCellX = Math.floor((x + radius) / this.cellSize);
+        const minCellZ = Math.floor((z - radius) / this.cellSize);
+        const maxCellZ = Math.floor((z + radius) / this.cellSize);
+
+        for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+            for (let cellZ = minCellZ; cellZ <= maxCellZ; cellZ++) {
+                const bucket = this.cells.get(this.cellKey(cellX, cellZ));
+                if (!bucket) {
+                    continue;
+                }
+                for (const id of bucket) {
+                    const entry = this.entries.get(id)!;
+                    const dx = entry.x - x;
+                    const dz = entry.z - z;
+                    if (dx * dx + dz * dz <= radiusSq) {
+                        result.push(id);
+                    }
+                }
+            }
+        }
+
+        return result;
+    }
+}
@@ -0,0 +1,192 @@
+// Persistence: player profiles and room world snapshots behind a storage adapter,
+// with a default implementation that keeps JSON files in a directory.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { EntityState } from './entity';
+
+/**
+ * What is kept of a player between sessions.
+ * @property {string} key - Who the profile belongs to; see `getProfileKey`.
+ * @property {string | null} name - The player's display name, if it had one.
+ * @property {string} roomId - The room the player was last in.
+ * @property {number} x - Last X coordinate in that room.
+ * @property {number} z - Last Z coordinate in that room.
+ * @property {number} rot - Last rotation in degrees.
+ * @property {Record<string, number>} stats - Game-defined counters, e.g. kills or play time.
+ * @property {number} savedAt - When the profile was saved (ms since the epoch).
+ */
+export interface PlayerProfile {
+    key: string;
+    name: string | null;
+    roomId: string;
+    x: number;
+    z: number;
+    rot: number;
+    stats: Record<string, number>;
+    savedAt: number;
+}
+
+/**
+ * The persistent state of a room, restored when the room is created again.
+ * Entity components are code rather than data, so only entity state is kept.
+ * @property {string} roomId - The room's ID.
+ * @property {EntityState[]} entities - Every entity in the room.
+ * @property {number} savedAt - When the snapshot was taken (ms since the epoch).
+ */
+export interface WorldSnapshot {
+    roomId: string;
+    entities: EntityState[];
+    savedAt: number;
+}
+
+/**
+ * Where profiles and world snapshots are kept. Implementations may reject on I/O
+ * errors; callers log the error and carry on with in-memory state.
+ */
+export interface StorageAdapter {
+    /**
+     * Loads a player profile.
+     * @param {string} key - The profile key.
+     * @returns {Promise<PlayerProfile | null>} The profile, or null if none was saved.
+     */
+    loadProfile(key: string): Promise<PlayerProfile | null>;
+    /**
+     * Saves a player profile, replacing any earlier one with the same key.
+     * @param {PlayerProfile} profile - The profile.
+     */
+    saveProfile(profile: PlayerProfile): Promise<void>;
+    /**
+     * Loads the last snapshot of a room.
+     * @param {string} roomId - The room's ID.
+     * @returns {Promise<WorldSnapshot | null>} The snapshot, or null if none was saved.
+     */
+    loadWorld(roomId: string): Promise<WorldSnapshot | null>;
+    /**
+     * Saves a room snapshot, replacing any earlier one for the room.
+     * @param {WorldSnapshot} snapshot - The snapshot.
+     */
+    saveWorld(snapshot: WorldSnapshot): Promise<void>;
+    /**
+     * Waits for every save started so far to finish, e.g. before the process exits.
+     */
+    flush(): Promise<void>;
+}
+
+/**
+ * Gets the key a player's profile is stored under: the user ID of its verified
+ * identity, or for anonymous players the player ID carried by their resume token.
+ * @param {string} playerId - The player's ID.
+ * @param {string | null} userId - The user ID of the player's identity, or null if anonymous.
+ * @returns {string} The profile key.
+ */
+export function getProfileKey(playerId: string, userId: string | null): string {
+    return userId !== null ? `user:${userId}` : `player:${playerId}`;
+}
+
+/**
+ * Stores each profile and snapshot as a JSON file under a directory. Files are
+ * written to a temporary name and renamed into place, so a crash mid-write
+ * leaves the previous version intact.
+ */
+export class FileStorage implements StorageAdapter {
+    private readonly directory: string;
+    private writes: Map<string, Promise<void>>; // Maps file path to its latest queued write, so writes to one file never overlap
+
+    /**
+     * Creates a new FileStorage. The directory is created on the first write.
+     * @param {string} directory - Where the files are kept.
+     */
+    constructor(directory: string) {
+        this.directory = directory;
+        this.writes = new Map<string, Promise<void>>();
+    }
+
+    /**
+     * Gets the file for a key. Keys are hashed so any string makes a safe file name.
+     */
+    private getPath(kind: 'profiles' | 'worlds', key: string): string {
+        return path.join(this.directory, kind, `${createHash('sha256').update(key).digest('hex')}.json`);
+    }
+
+    /**
+     * Reads and parses a JSON file, or returns null if it does not exist.
+     */
+    private async read(file: string): Promise<unknown> {
+        try {
+            return JSON.parse(await fs.readFile(file, 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Queues a write of a value to a file behind any earlier write to the same file.
+     */
+    private write(file: string, value: unknown): Promise<void> {
+        const previous = this.writes.get(file) ?? Promise.resolve();
+        const next = previous.catch(() => undefined).then(async () => {
+            const temporary = `${file}.tmp`;
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            await fs.writeFile(temporary, JSON.stringify(value));
+            await fs.rename(temporary, file);
+        });
+        this.writes.set(file, next);
+        // Forget the write once done, unless another one was queued behind it
+        next.catch(() => undefined).then(() => {
+            if (this.writes.get(file) === next) {
+                this.writes.delete(file);
+            }
+        });
+        return next;
+    }
+
+    /**
+     * Loads a player profile.
+     * @param {string} key - The profile key.
+     * @returns {Promise<PlayerProfile | null>} The profile, or null if none was saved.
+     */
+    public async loadProfile(key: string): Promise<PlayerProfile | null> {
+        const profile = await this.read(this.getPath('profiles', key)) as PlayerProfile | null;
+        return profile?.key === key ? profile : null;
+    }
+
+    /**
+     * Saves a player profile, replacing any earlier one with the same key.
+     * @param {PlayerProfile} profile - The profile.
+     */
+    public saveProfile(profile: PlayerProfile): Promise<void> {
+        return this.write(this.getPath('profiles', profile.key), profile);
+    }
+
+    /**
+     * Loads the last snapshot of a room.
+     * @param {string} roomId - The room's ID.
+     * @returns {Promise<WorldSnapshot | null>} The snapshot, or null if none was saved.
+     */
+    public async loadWorld(roomId: string): Promise<WorldSnapshot | null> {
+        const snapshot = await this.read(this.getPath('worlds', roomId)) as WorldSnapshot | null;
+        return snapshot?.roomId === roomId ? snapshot : null;
+    }
+
+    /**
+     * Saves a room snapshot, replacing any earlier one for the room.
+     * @param {WorldSnapshot} snapshot - The snapshot.
+     */
+    public saveWorld(snapshot: WorldSnapshot): Promise<void> {
+        return this.write(this.getPath('worlds', snapshot.roomId), snapshot);
+    }
+
+    /**
+     * Waits for every queued write to finish. Failed writes were already reported to their callers.
+     * @returns {Promise<void>} Resolves once nothing is being written.
+     */
+    public async flush(): Promise<void> {
+        while (this.writes.size > 0) {
+            await Promise.allSettled(this.writes.values());
+        }
+    }
+}
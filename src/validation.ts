@@ -0,0 +1,239 @@
+// Declarative schemas for every client message type and the validator that
+// checks decoded payloads against them before they reach the server.
+// Only types are imported from protocol.ts, which calls into this module.
+import { ClientMessage, CustomClientMessage, ProtocolFormat, ChatChannel } from './protocol';
+
+/**
+ * Codes sent in `error` server messages.
+ */
+export type ErrorCode =
+    | 'malformed' // The frame could not be decoded at all
+    | 'unknown_type' // The `type` field names no client message
+    | 'missing_field' // A required field is absent
+    | 'invalid_field' // A field has the wrong type or is out of range
+    | 'unexpected_field' // A field not in the schema was sent
+    | 'rate_limited' // The message was dropped because the client is sending too fast
+    | 'too_many_violations'; // Sent right before the server disconnects the client
+
+/**
+ * Rule for a single message field.
+ */
+export type FieldRule =
+    | { type: 'number'; min: number; max: number; integer?: boolean; optional?: boolean }
+    | { type: 'string'; minLength: number; maxLength: number; pattern?: RegExp; optional?: boolean }
+    | { type: 'enum'; values: readonly string[]; optional?: boolean }
+    | { type: 'boolean'; optional?: boolean };
+
+/**
+ * Schema of one message type: its fields other than `type`.
+ */
+export type MessageSchema = Record<string, FieldRule>;
+
+export const MAX_NAME_LENGTH = 32;
+export const MAX_ROOM_ID_LENGTH = 32;
+export const MAX_CHAT_LENGTH = 500; // Upper bound for any room's chat length limit
+const MAX_COORDINATE = 1e6;
+const MAX_RESUME_TOKEN_LENGTH = 256;
+const TIMECODE_MAX = 2 ** 24 - 1;
+const HELLO_FORMATS: readonly ProtocolFormat[] = ['json', 'msgpack', 'binary'];
+const CHAT_CHANNELS: readonly ChatChannel[] = ['global', 'whisper', 'proximity'];
+const NAME_PATTERN = /^[^\s\p{Cc}](?:[^\p{Cc}]*[^\s\p{Cc}])?$/u; // No control characters or surrounding whitespace
+const QUATERNION_RULE: FieldRule = { type: 'number', min: -2, max: 2, optional: true }; // Normalized by the server, so rounding errors are fine
+const PLAYER_ID_RULE: FieldRule = { type: 'string', minLength: 1, maxLength: 64, pattern: /^[A-Za-z0-9-]+$/ };
+
+// Every message may carry a timecode; the decoder fills it in when absent, after validation
+export const TIMECODE_RULE: FieldRule = { type: 'number', min: 0, max: TIMECODE_MAX, integer: true, optional: true };
+
+/**
+ * Schemas for every client message. Adding a variant to `ClientMessage`
+ * without a schema here is a compile error.
+ */
+export const CLIENT_MESSAGE_SCHEMAS: Record<ClientMessage['type'], MessageSchema> = {
+    hello: {
+        format: { type: 'enum', values: HELLO_FORMATS },
+        version: { type: 'number', min: 1, max: 255, integer: true },
+        resumeToken: { type: 'string', minLength: 1, maxLength: MAX_RESUME_TOKEN_LENGTH, optional: true },
+        t: TIMECODE_RULE,
+    },
+    move: {
+        x: { type: 'number', min: -MAX_COORDINATE, max: MAX_COORDINATE },
+        z: { type: 'number', min: -MAX_COORDINATE, max: MAX_COORDINATE },
+        rot: { type: 'number', min: -360, max: 360 },
+        y: { type: 'number', min: -MAX_COORDINATE, max: MAX_COORDINATE, optional: true },
+        pitch: { type: 'number', min: -90, max: 90, optional: true },
+        qx: QUATERNION_RULE,
+        qy: QUATERNION_RULE,
+        qz: QUATERNION_RULE,
+        qw: QUATERNION_RULE,
+        t: TIMECODE_RULE,
+    },
+    set_name: {
+        name: { type: 'string', minLength: 1, maxLength: MAX_NAME_LENGTH, pattern: NAME_PATTERN },
+        t: TIMECODE_RULE,
+    },
+    resync: {
+        lastSeq: { type: 'number', min: 0, max: 2 ** 32 - 1, integer: true, optional: true },
+        t: TIMECODE_RULE,
+    },
+    join_room: {
+        roomId: { type: 'string', minLength: 1, maxLength: MAX_ROOM_ID_LENGTH, pattern: /^[A-Za-z0-9_-]+$/ },
+        t: TIMECODE_RULE,
+    },
+    leave_room: {
+        t: TIMECODE_RULE,
+    },
+    list_rooms: {
+        t: TIMECODE_RULE,
+    },
+    chat: {
+        channel: { type: 'enum', values: CHAT_CHANNELS },
+        // Tabs and line breaks are the only control characters allowed
+        text: { type: 'string', minLength: 1, maxLength: MAX_CHAT_LENGTH, pattern: /^(?:[^\p{Cc}]|[\t\n])*$/u },
+        to: { type: 'string', minLength: 1, maxLength: MAX_NAME_LENGTH, pattern: NAME_PATTERN, optional: true },
+        t: TIMECODE_RULE,
+    },
+    pong: {
+        id: { type: 'number', min: 1, max: 0xffffffff, integer: true },
+        // Required: a timecode filled in by the server would skew the clock offset estimate
+        t: { ...TIMECODE_RULE, optional: false },
+    },
+    mute: {
+        playerId: PLAYER_ID_RULE,
+        t: TIMECODE_RULE,
+    },
+    unmute: {
+        playerId: PLAYER_ID_RULE,
+        t: TIMECODE_RULE,
+    },
+};
+
+/**
+ * Outcome of validating a client payload.
+ */
+export type ValidationResult =
+    | { ok: true; message: ClientMessage; custom?: false }
+    | { ok: true; message: CustomClientMessage; custom: true } // A type from the custom schemas
+    | { ok: false; code: ErrorCode; detail: string };
+
+const NO_CUSTOM_SCHEMAS: ReadonlyMap<string, MessageSchema> = new Map<string, MessageSchema>();
+
+/**
+ * Checks a single field value against its rule.
+ * @returns {string | null} A description of the problem, or null if the value is valid.
+ */
+function checkField(name: string, value: unknown, rule: FieldRule): string | null {
+    switch (rule.type) {
+        case 'number':
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                return `${name} must be a finite number`;
+            }
+            if (rule.integer && !Number.isInteger(value)) {
+                return `${name} must be an integer`;
+            }
+            if (value < rule.min || value > rule.max) {
+                return `${name} must be between ${rule.min} and ${rule.max}`;
+            }
+            return null;
+        case 'string':
+            if (typeof value !== 'string') {
+                return `${name} must be a string`;
+            }
+            if (value.length < rule.minLength || value.length > rule.maxLength) {
+                return `${name} must be ${rule.minLength}-${rule.maxLength} characters long`;
+            }
+            if (rule.pattern && !rule.pattern.test(value)) {
+                return `${name} contains invalid characters`;
+            }
+            return null;
+        case 'enum':
+            if (typeof value !== 'string' || !rule.values.includes(value)) {
+                return `${name} must be one of ${rule.values.join(', ')}`;
+            }
+            return null;
+        case 'boolean':
+            return typeof value === 'boolean' ? null : `${name} must be true or false`;
+    }
+}
+
+/**
+ * Checks every field of a payload other than `type` against a schema.
+ * @param {Record<string, unknown>} record - The payload.
+ * @param {MessageSchema} schema - The schema to check against.
+ * @returns {ValidationResult | null} The failure for the first problem found, or null if the payload matches.
+ */
+export function checkSchema(record: Record<string, unknown>, schema: MessageSchema): ValidationResult | null {
+    for (const field of Object.keys(record)) {
+        if (field !== 'type' && !Object.prototype.hasOwnProperty.call(schema, field)) {
+            return { ok: false, code: 'unexpected_field', detail: `Unexpected field: ${field.slice(0, MAX_NAME_LENGTH)}` };
+        }
+    }
+    for (const [field, rule] of Object.entries(schema)) {
+        const value = record[field];
+        if (value === undefined) {
+            if (!rule.optional) {
+                return { ok: false, code: 'missing_field', detail: `Missing field: ${field}` };
+            }
+            continue;
+        }
+        const problem = checkField(field, value, rule);
+        if (problem) {
+            return { ok: false, code: 'invalid_field', detail: problem };
+        }
+    }
+    return null;
+}
+
+/**
+ * Validates a decoded payload against the schema for its `type`.
+ * @param {unknown} payload - The decoded payload.
+ * @param {ReadonlyMap<string, MessageSchema>} customSchemas - Schemas of message types added by the embedding game (optional). Built-in types cannot be overridden.
+ * @returns {ValidationResult} The typed message, or the error code and a description of the first problem found.
+ */
+export function validateClientMessage(payload: unknown, customSchemas: ReadonlyMap<string, MessageSchema> = NO_CUSTOM_SCHEMAS): ValidationResult {
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+        return { ok: false, code: 'malformed', detail: 'Message must be an object' };
+    }
+    const record = payload as Record<string, unknown>;
+    const type = record.type;
+    if (typeof type === 'string' && Object.prototype.hasOwnProperty.call(CLIENT_MESSAGE_SCHEMAS, type)) {
+        return checkSchema(record, CLIENT_MESSAGE_SCHEMAS[type as ClientMessage['type']])
+            ?? { ok: true, message: record as unknown as ClientMessage };
+    }
+    const customSchema = typeof type === 'string' ? customSchemas.get(type) : undefined;
+    if (!customSchema) {
+        return { ok: false, code: 'unknown_type', detail: `Unknown message type: ${String(type).slice(0, MAX_NAME_LENGTH)}` };
+    }
+    return checkSchema(record, { ...customSchema, t: TIMECODE_RULE })
+        ?? { ok: true, custom: true, message: record as CustomClientMessage };
+}
+
+/**
+ * Counts a connection's protocol violations in a sliding time window so
+ * repeat offenders can be disconnected while one-off mistakes are forgiven.
+ */
+export class ViolationTracker {
+    private readonly maxViolations: number;
+    private readonly windowMs: number;
+    private timestamps: number[] = []; // Times of the violations still inside the window
+
+    /**
+     * Creates a new ViolationTracker.
+     * @param {number} maxViolations - Violations allowed within the window before the limit is exceeded.
+     * @param {number} windowMs - Length of the sliding window in milliseconds.
+     */
+    constructor(maxViolations: number, windowMs: number) {
+        this.maxViolations = maxViolations;
+        this.windowMs = windowMs;
+    }
+
+    /**
+     * Records a violation.
+     * @returns {boolean} True if the connection has now exceeded the limit.
+     */
+    public record(): boolean {
+        const now = Date.now();
+        this.timestamps = this.timestamps.filter(time => now - time < this.windowMs);
+        this.timestamps.push(now);
+        return this.timestamps.length > this.maxViolations;
+    }
+}